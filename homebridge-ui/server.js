@@ -0,0 +1,69 @@
+const { HomebridgePluginUiServer, RequestError } = require('@homebridge/plugin-ui-utils');
+
+const { scanWizDevices } = require('../dist/discovery');
+const { identifyWizDevice } = require('../dist/identify');
+const { getLocalAddress } = require('../dist/push');
+const { WizTransport } = require('../dist/transport');
+
+/**
+ * The server side of the custom plugin page in the Homebridge UI: scans for devices and lets them blink.
+ * Saving the devices into the config is done by the page itself.
+ */
+class WizUiServer extends HomebridgePluginUiServer {
+    constructor() {
+        super();
+
+        // the transports by the local address they bind to, '' for all interfaces
+        this.transports = {};
+
+        this.onRequest('/scan', this.scan.bind(this));
+        this.onRequest('/identify', this.identify.bind(this));
+
+        this.ready();
+    }
+
+    getTransport(localAddress) {
+        const key = localAddress || '';
+        if (!this.transports[key]) {
+            // the transport logs like the Homebridge logger, only errors are of interest here
+            this.transports[key] = new WizTransport({
+                info: () => undefined,
+                warn: () => undefined,
+                error: (...args) => console.error(...args),
+                debug: () => undefined,
+            }, { timeout: 1000, retries: 2, localAddress });
+        }
+        return this.transports[key];
+    }
+
+    /**
+     * Lists the devices that answer the discovery broadcast or the scan of the `scanRanges`,
+     * with their type and signal strength
+     */
+    async scan({ broadcastAddress, discoveryTimeout, scanRanges, scanRate, networkInterface }) {
+        // all interfaces when the configured one doesn't exist, like the platform does
+        const address = networkInterface ? getLocalAddress(networkInterface) : undefined;
+        const localAddress = address ? address.address : undefined;
+        try {
+            return await scanWizDevices(this.getTransport(localAddress), {
+                broadcastAddress: broadcastAddress || '255.255.255.255',
+                timeout: (discoveryTimeout || 3) * 1000,
+                ranges: scanRanges || [],
+                rate: scanRate || 50,
+                localAddress,
+            });
+        } catch (error) {
+            throw new RequestError(error.message, { message: error.message });
+        }
+    }
+
+    async identify({ ip }) {
+        try {
+            await identifyWizDevice(this.getTransport(), ip);
+        } catch (error) {
+            throw new RequestError(`${ip} does not answer`, { message: error.message });
+        }
+    }
+}
+
+(() => new WizUiServer())();
@@ -0,0 +1,271 @@
+import {
+    PlatformAccessory,
+    CharacteristicValue,
+    Service,
+} from 'homebridge';
+
+import { formatMac, HomebridgeWizHelper, IWizDevice, WizPowerRestorePolicy } from './platform';
+import { IWizPilot, IWizPushMessage, IWizResponse, IWizSetPilotParams, WizMethod, WizParams } from './protocol';
+import { WizTimeoutError } from './transport';
+import { getRestoreParams, WizCommandQueue } from './commandQueue';
+import { identifyWizDevice } from './identify';
+import { clampDimming } from './transition';
+
+type WizPushHandler = (message: IWizPushMessage, ip: string) => void;
+
+/**
+ * The part every WiZ accessory handler shares: the accessory information, receiving the pushed state
+ * and sending requests to the device.
+ */
+export abstract class HomebridgeWizAccessory {
+
+    /**
+     * Merges the changes HomeKit sends in quick succession into a single setPilot
+     */
+    protected readonly commandQueue = new WizCommandQueue(params => this.request('setPilot', params));
+
+    // whether the weak signal warning was logged, it is logged again once the signal recovered
+    private weakSignal = false;
+
+    // the push listeners this handler added, removed again by `dispose`
+    private readonly subscriptions: { mac: string; listener: WizPushHandler }[] = [];
+
+    private readonly onIdentify = () => this.identify();
+
+    constructor(
+        protected readonly platform: HomebridgeWizHelper,
+        protected readonly accessory: PlatformAccessory,
+    ) {
+
+        const information = this.updateInformation(accessory.context.device);
+        this.configureDiagnostics(information);
+
+        this.accessory.on('identify', this.onIdentify);
+    }
+
+    /**
+     * Sets the accessory information, the model and firmware are only known once the device answered
+     */
+    protected updateInformation(device: IWizDevice): Service {
+        const information = this.accessory.getService(this.platform.Service.AccessoryInformation)!
+            .setCharacteristic(this.platform.Characteristic.Manufacturer, 'WiZ')
+            .setCharacteristic(this.platform.Characteristic.Model, device.moduleName || 'Unknown')
+            .setCharacteristic(this.platform.Characteristic.SerialNumber, formatMac(device.mac));
+        if (device.fwVersion) {
+            information.setCharacteristic(this.platform.Characteristic.FirmwareRevision, device.fwVersion);
+        }
+        return information;
+    }
+
+    /**
+     * Applies what the discovery found for a device whose accessory was restored from the cache,
+     * `accessory.context.device` is already updated by the platform
+     */
+    refresh(device: IWizDevice) {
+        this.updateInformation(device);
+        this.handlePilot(device, false);
+    }
+
+    /**
+     * Stops listening to the device, called before the accessory is removed or gets a new handler
+     */
+    dispose() {
+        for (const { mac, listener } of this.subscriptions.splice(0)) {
+            this.platform.pushListener.off(mac, listener);
+        }
+        this.accessory.removeListener('identify', this.onIdentify);
+    }
+
+    /**
+     * Calls the listener with every push of the device with this MAC
+     */
+    protected subscribe(mac: string, listener: WizPushHandler) {
+        this.subscriptions.push({ mac, listener });
+        this.platform.pushListener.on(mac, listener);
+    }
+
+    /**
+     * Handle the identify request of HomeKit, sent when the accessory is added, by letting the device blink
+     */
+    identify() {
+        const { ip } = this.accessory.context.device;
+        this.platform.log.info(`Identifying ${this.accessory.displayName} (${ip})`);
+        identifyWizDevice(this.platform.transport, ip).catch((error: Error) => {
+            this.platform.log.error(`Cannot identify ${this.accessory.displayName}:`, error.message);
+        });
+    }
+
+    /**
+     * Adds the Wi-Fi signal strength to the accessory information when `diagnostics` is enabled, removes it otherwise
+     */
+    protected configureDiagnostics(information: Service) {
+        const { SignalStrength } = this.platform.CustomCharacteristic;
+        const existing = information.characteristics.find(characteristic => characteristic.UUID === SignalStrength.UUID);
+        if (this.platform.settings.diagnostics) {
+            // HAP warns about characteristics a service doesn't list
+            information.addOptionalCharacteristic(SignalStrength);
+            information.getCharacteristic(SignalStrength)
+                .onGet(() => this.respond(this.accessory.context.device.rssi ?? 0));
+        } else if (existing) {
+            information.removeCharacteristic(existing);
+        }
+    }
+
+    /**
+     * Keeps the signal strength the device reports with every state up to date,
+     * and warns when it drops below `rssiWarning` (dBm)
+     */
+    protected updateDiagnostics(params: IWizPilot) {
+        if (params.rssi === undefined) {
+            return;
+        }
+        this.accessory.context.device.rssi = params.rssi;
+        if (this.platform.settings.diagnostics) {
+            this.accessory.getService(this.platform.Service.AccessoryInformation)!
+                .updateCharacteristic(this.platform.CustomCharacteristic.SignalStrength, params.rssi);
+        }
+
+        const threshold = this.platform.settings.rssiWarning ?? -80;
+        if (params.rssi < threshold && !this.weakSignal) {
+            this.weakSignal = true;
+            this.platform.log.warn(`${this.accessory.displayName} has a weak Wi-Fi signal (${params.rssi} dBm), it may stop responding`);
+        } else if (params.rssi >= threshold && this.weakSignal) {
+            this.weakSignal = false;
+            this.platform.log.info(`${this.accessory.displayName} has a good Wi-Fi signal again (${params.rssi} dBm)`);
+        }
+    }
+
+    /**
+     * Updates the current state from a getPilot result or syncPilot push and lets HomeKit know about it
+     */
+    abstract applyPilot(result: IWizPilot): void;
+
+    /**
+     * Applies the state found by the discovery, after that the device pushes its changes.
+     * Called by the handlers once their services are set up.
+     */
+    protected listen(device: IWizDevice) {
+        this.updateDiagnostics(device);
+        this.applyPilot(device);
+        this.subscribe(device.mac, (message, ip) => {
+            // the pushes come from the current ip of the device, which changes when DHCP hands out a new one
+            this.platform.updateDeviceIp(this.accessory, ip);
+            const cameBack = this.platform.reportDeviceSeen(this.accessory);
+            // a device sends firstBeat once it booted, it has no state yet
+            if (message.method === 'firstBeat') {
+                this.restoreAfterPowerLoss('started');
+            } else {
+                this.handlePilot(message.params, cameBack);
+            }
+        });
+        this.platform.pushListener.register(device.ip);
+    }
+
+    /**
+     * Handles the state the device reported through a push or a poll. A device that comes back after being
+     * offline most likely lost its power, it then shows its power-on state instead of the last one.
+     */
+    protected handlePilot(params: IWizPilot, cameBack: boolean) {
+        if (cameBack && this.restoreAfterPowerLoss('came back online')) {
+            // the device pushes the restored state once it is applied
+            return;
+        }
+        this.accessory.context.lastState = params;
+        this.updateDiagnostics(params);
+        this.applyPilot(params);
+    }
+
+    /**
+     * Applies the `powerRestore` policy of the device after it lost its power: `restore` sends the last known state,
+     * `off` turns it off and `device` keeps the state the device turned on with.
+     * Returns whether the state of the device is changed.
+     */
+    protected restoreAfterPowerLoss(reason: string): boolean {
+        const policy: WizPowerRestorePolicy = this.accessory.context.powerRestore ?? 'device';
+        const lastState: IWizPilot|undefined = this.accessory.context.lastState;
+
+        let params: IWizSetPilotParams;
+        if (policy === 'off') {
+            params = { state: false };
+        } else if (policy === 'restore' && lastState) {
+            params = getRestoreParams(lastState);
+        } else {
+            return false;
+        }
+
+        this.platform.log.info(`${this.accessory.displayName} ${reason}, restoring`, params);
+        this.setPilot(params).catch(() => {
+            // already logged, the next poll shows the state the device is in
+        });
+        return true;
+    }
+
+    /**
+     * Answers a HomeKit GET from the cached state. Throws when the device is offline,
+     * so HomeKit shows it as not responding instead of a stale value.
+     */
+    respond<T extends CharacteristicValue>(value: T): T {
+        if (!this.platform.isDeviceOnline(this.accessory)) {
+            throw this.communicationFailure();
+        }
+        return value;
+    }
+
+    /**
+     * Queues the params for the next setPilot and resolves once the device accepted it.
+     * `apply` updates the current state to the new values right away, so the other characteristics can use them.
+     * The dimming is kept within the 10-100% the devices accept.
+     * Rejects with SERVICE_COMMUNICATION_FAILURE when the device doesn't answer, HomeKit then shows "No Response".
+     */
+    async setPilot(params: IWizSetPilotParams, apply?: () => void): Promise<void> {
+        apply?.();
+        try {
+            await this.commandQueue.push(clampDimming(params));
+        } catch (error) {
+            this.platform.log.error(`${this.accessory.displayName} did not accept the change:`, error.message);
+            throw this.communicationFailure();
+        }
+    }
+
+    protected communicationFailure(): Error {
+        const { HapStatusError, HAPStatus } = this.platform.api.hap;
+        return new HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+
+    /**
+     * Asks the device for its state, for the changes whose push got lost or that the device doesn't push at all.
+     * Called by the poll loop of the platform. Another device answering at its ip counts as no answer.
+     */
+    async poll() {
+        const { ip, mac }: IWizDevice = this.accessory.context.device;
+        const response = await this.platform.requestDevice(ip, 'getPilot');
+        if (response?.result.mac === mac) {
+            this.handlePilot(response.result, this.platform.reportDeviceSeen(this.accessory));
+        } else {
+            // DHCP may have given its ip to another device, that one's state is not the state of this one
+            if (response) {
+                this.platform.log.info(`${this.accessory.displayName} (${mac}) is no longer at ${ip}, ${response.result.mac} answered`);
+            }
+            this.platform.reportDeviceFailure(this.accessory);
+            this.platform.relocateDevice(this.accessory);
+        }
+    }
+
+    request<M extends WizMethod>(method: M, params: WizParams<M> = {}): Promise<IWizResponse<M>> {
+        const { ip, mac } = this.accessory.context.device;
+
+        this.platform.log.debug(`Sending ${method} to ip: ${ip} // mac: ${mac}`);
+
+        return this.platform.transport.request(ip, method, params).then((response) => {
+            this.platform.reportDeviceSeen(this.accessory);
+            return response;
+        }, (error) => {
+            // the device may have a new ip, look for it in the background so the next request reaches it
+            if (error instanceof WizTimeoutError) {
+                this.platform.reportDeviceFailure(this.accessory);
+                this.platform.relocateDevice(this.accessory);
+            }
+            throw error;
+        });
+    }
+}
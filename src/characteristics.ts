@@ -0,0 +1,56 @@
+import { API, Characteristic, WithUUID } from 'homebridge';
+
+export type CustomCharacteristic = WithUUID<new () => Characteristic>;
+
+export interface IWizCustomCharacteristics {
+    CurrentConsumption: CustomCharacteristic;
+    SignalStrength: CustomCharacteristic;
+}
+
+/**
+ * Creates the characteristics HomeKit doesn't define itself. They need the hap of the running Homebridge,
+ * so they are created once by the platform instead of at import time.
+ */
+export function createCustomCharacteristics(api: API): IWizCustomCharacteristics {
+    const { Characteristic, Formats, Perms } = api.hap;
+
+    /**
+     * The power consumption in watt, as used by the Eve app
+     */
+    class CurrentConsumption extends Characteristic {
+        static readonly UUID = 'E863F10D-079E-48FF-8F27-9C2605A29F52';
+
+        constructor() {
+            super('Consumption', CurrentConsumption.UUID, {
+                format: Formats.FLOAT,
+                unit: 'W',
+                minValue: 0,
+                maxValue: 65535,
+                minStep: 0.1,
+                perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+            });
+            this.value = this.getDefaultValue();
+        }
+    }
+
+    /**
+     * The Wi-Fi signal strength (RSSI) the device reports, in dBm
+     */
+    class SignalStrength extends Characteristic {
+        static readonly UUID = 'CCC19CD4-D3ED-4EBB-855F-DEAFFDBE0601';
+
+        constructor() {
+            super('Wi-Fi Signal', SignalStrength.UUID, {
+                format: Formats.INT,
+                unit: 'dBm',
+                minValue: -100,
+                maxValue: 0,
+                minStep: 1,
+                perms: [Perms.PAIRED_READ, Perms.NOTIFY],
+            });
+            this.value = this.getDefaultValue();
+        }
+    }
+
+    return { CurrentConsumption, SignalStrength };
+}
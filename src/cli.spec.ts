@@ -0,0 +1,131 @@
+import assert from 'assert';
+import udp from 'dgram';
+
+import { checkOptions, formatPilot, getSetPilotParams, parseArguments, runCli } from './cli';
+import { MockWizDevice } from './mocks/wizDevice';
+import { WIZ_PUSH_PORT } from './push';
+
+describe('cli', function () {
+    // the discovery listens for 200ms
+    this.timeout(5000);
+
+    describe('parseArguments', () => {
+        it('splits the command, its arguments and the options', () => {
+            assert.deepStrictEqual(parseArguments(['set', '192.168.1.20', '--dimming', '50', '--json']), {
+                command: 'set',
+                args: ['192.168.1.20'],
+                options: { dimming: '50', json: true },
+            });
+        });
+
+        it('refuses an option without a value', () => {
+            assert.throws(() => parseArguments(['set', '192.168.1.20', '--temp']), /--temp needs a value/);
+        });
+    });
+
+    describe('checkOptions', () => {
+        it('refuses an invalid timeout or count', () => {
+            assert.doesNotThrow(() => checkOptions({ timeout: '0.5', count: '10' }));
+            assert.throws(() => checkOptions({ timeout: 'abc' }), /--timeout must be a number from 0.1 to 60/);
+            assert.throws(() => checkOptions({ count: '0' }), /--count must be a number from 1 to 10000/);
+        });
+    });
+
+    describe('getSetPilotParams', () => {
+        it('turns the options into setPilot params', () => {
+            const params = getSetPilotParams({ state: 'on', dimming: '50', temp: '2700' });
+            assert.deepStrictEqual(params, { state: true, dimming: 50, temp: 2700 });
+            assert.deepStrictEqual(getSetPilotParams({ scene: 'ocean', speed: '150' }), { sceneId: 1, speed: 150 });
+            assert.deepStrictEqual(getSetPilotParams({ scene: '4' }), { sceneId: 4 });
+        });
+
+        it('refuses invalid values', () => {
+            assert.throws(() => getSetPilotParams({ dimming: '150' }), /--dimming must be a number from 10 to 100/);
+            assert.throws(() => getSetPilotParams({ state: 'maybe' }), /--state must be on or off/);
+            assert.throws(() => getSetPilotParams({ scene: 'Disco' }), /Unknown scene Disco/);
+            assert.throws(() => getSetPilotParams({}), /Nothing to set/);
+        });
+    });
+
+    describe('formatPilot', () => {
+        it('describes the state in a single line', () => {
+            assert.strictEqual(formatPilot({ state: true, dimming: 50, temp: 2700, rssi: -60 }), 'on, 50%, 2700K, -60 dBm');
+            assert.strictEqual(formatPilot({ state: true, dimming: 80, sceneId: 1 }), 'on, 80%, scene Ocean');
+            assert.strictEqual(formatPilot({ state: false, dimming: 10, r: 255, g: 0, b: 0 }), 'off, 10%, rgb(255, 0, 0) c0 w0');
+        });
+    });
+
+    describe('runCli', () => {
+        let device: MockWizDevice;
+        let output: string[];
+        const run = (...argv: string[]) => runCli(argv, text => output.push(text));
+
+        beforeEach(async () => {
+            device = new MockWizDevice({ ip: '127.0.0.2', mac: 'a8bb50000001', moduleName: 'ESP01_SHRGB1C_31', whiteRange: [2200, 6500] });
+            await device.start();
+            output = [];
+        });
+
+        afterEach(async () => {
+            await device.stop();
+        });
+
+        it('lists the discovered devices', async () => {
+            assert.strictEqual(await run('discover', '--broadcast', '127.0.0.2', '--timeout', '0.2', '--json'), 0);
+
+            const devices = JSON.parse(output[0]);
+            assert.deepStrictEqual(devices.map(found => [found.ip, found.mac, found.type]), [['127.0.0.2', 'a8bb50000001', 'RGB_LIGHT']]);
+        });
+
+        it('shows the state and type of a device', async () => {
+            device.pilot.dimming = 30;
+
+            assert.strictEqual(await run('get', '127.0.0.2'), 0);
+
+            assert.deepStrictEqual(output[0].split('\n'), [
+                '127.0.0.2  a8bb50000001  RGB_LIGHT (ESP01_SHRGB1C_31)',
+                'off, 30%, 2700K, -60 dBm',
+            ]);
+        });
+
+        it('changes the state of a device', async () => {
+            assert.strictEqual(await run('set', '127.0.0.2', '--state', 'on', '--dimming', '40', '--json'), 0);
+
+            assert.strictEqual(device.pilot.state, true);
+            assert.strictEqual(device.pilot.dimming, 40);
+            assert.strictEqual(JSON.parse(output[0]).dimming, 40);
+        });
+
+        it('shows the state changes a device pushes', async () => {
+            const watching = run('watch', '127.0.0.2', '--count', '1', '--json');
+            while (device.registeredIp === undefined) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+            device.setPilot({ state: true, dimming: 75 });
+
+            assert.strictEqual(await watching, 0);
+            assert.deepStrictEqual(JSON.parse(output[0]), { ...device.pilot, ip: '127.0.0.2', method: 'syncPilot' });
+        });
+
+        it('fails to watch when another process listens for the updates', async () => {
+            const homebridge = udp.createSocket('udp4');
+            await new Promise<void>(resolve => homebridge.bind(WIZ_PUSH_PORT, resolve));
+            try {
+                assert.strictEqual(await run('watch', '127.0.0.2', '--count', '1'), 1);
+            } finally {
+                homebridge.close();
+            }
+            assert.deepStrictEqual(output, []);
+        });
+
+        it('refuses an invalid count before watching', async () => {
+            assert.strictEqual(await run('watch', '127.0.0.2', '--count', 'abc'), 2);
+            assert.deepStrictEqual(output, []);
+        });
+
+        it('prints the usage for an unknown command', async () => {
+            assert.strictEqual(await run('dance'), 2);
+            assert.ok(output[0].startsWith('Usage: wiz-helper'));
+        });
+    });
+});
@@ -0,0 +1,308 @@
+#!/usr/bin/env node
+import { Logger } from 'homebridge';
+
+import { getWizDeviceCapabilities, IWizScannedDevice, scanWizDevices } from './discovery';
+import { identifyWizDevice } from './identify';
+import { IWizPilot, IWizPushMessage, IWizSetPilotParams } from './protocol';
+import { getLocalAddress, WIZ_PUSH_PORT, WizPushListener } from './push';
+import { getSceneId, WIZ_SCENES } from './scenes';
+import { WizTimeoutError, WizTransport } from './transport';
+
+const USAGE = `Usage: wiz-helper <command> [options]
+
+Commands:
+  discover                 list the devices that answer the discovery broadcast
+  get <ip>                 show the state and the type of a device
+  set <ip>                 change the state of a device, with --state, --dimming, --temp, --scene and --speed
+  identify <ip>            let a device blink
+  watch [ip...]            show the state changes the devices push, all discovered devices when no ip is given
+
+Options:
+  --state <on|off>         turn the device on or off
+  --dimming <10-100>       brightness (%)
+  --temp <kelvin>          colour temperature, e.g. 2700
+  --scene <name|id>        WiZ scene, e.g. Ocean or 1
+  --speed <10-200>         speed of the scene (%)
+  --broadcast <address>    address of the discovery broadcast (default 255.255.255.255)
+  --timeout <seconds>      how long to wait for devices to answer the discovery (default 3)
+  --interface <name|ip>    network interface to talk to the devices on
+  --count <n>              stop watching after n updates
+  --json                   print JSON instead of text
+  --verbose                print every request and answer
+`;
+
+// options that are flags, all others take a value
+const FLAGS = ['json', 'verbose', 'help'];
+
+export interface ICliArguments {
+    command?: string;
+    args: string[];
+    options: { [name: string]: string | boolean };
+}
+
+interface ICliContext {
+    transport: WizTransport;
+    options: ICliArguments['options'];
+    bindAddress?: string;
+    // prints a result, as JSON when --json is given
+    print: (value: unknown, text: string) => void;
+}
+
+/**
+ * Splits the command line into the command, its arguments and the options
+ */
+export function parseArguments(argv: string[]): ICliArguments {
+    const parsed: ICliArguments = { args: [], options: {} };
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+        if (arg.startsWith('--')) {
+            const name = arg.substring(2);
+            if (FLAGS.includes(name)) {
+                parsed.options[name] = true;
+            } else if (index + 1 < argv.length) {
+                parsed.options[name] = argv[++index];
+            } else {
+                throw new Error(`--${name} needs a value`);
+            }
+        } else if (parsed.command === undefined) {
+            parsed.command = arg;
+        } else {
+            parsed.args.push(arg);
+        }
+    }
+    return parsed;
+}
+
+/**
+ * Reads a number option, a whole one unless `integer` is false, throws when it is not within min and max
+ */
+function getNumber(options: ICliArguments['options'], name: string, min: number, max: number, integer = true): number {
+    const value = Number(options[name]);
+    if (!(integer ? Number.isInteger(value) : Number.isFinite(value)) || value < min || value > max) {
+        throw new Error(`--${name} must be a number from ${min} to ${max}`);
+    }
+    return value;
+}
+
+/**
+ * Checks the options every command may use, so a typo is reported before anything is sent
+ */
+export function checkOptions(options: ICliArguments['options']) {
+    if (options.timeout !== undefined) {
+        getNumber(options, 'timeout', 0.1, 60, false);
+    }
+    if (options.count !== undefined) {
+        getNumber(options, 'count', 1, 10000);
+    }
+}
+
+/**
+ * Turns the options of `set` into the params of a setPilot
+ */
+export function getSetPilotParams(options: ICliArguments['options']): IWizSetPilotParams {
+    const params: IWizSetPilotParams = {};
+    const number = (name: string, min: number, max: number) => getNumber(options, name, min, max);
+
+    if (options.state !== undefined) {
+        if (!['on', 'off', 'true', 'false'].includes(String(options.state))) {
+            throw new Error('--state must be on or off');
+        }
+        params.state = options.state === 'on' || options.state === 'true';
+    }
+    if (options.dimming !== undefined) {
+        params.dimming = number('dimming', 10, 100);
+    }
+    if (options.temp !== undefined) {
+        params.temp = number('temp', 1000, 10000);
+    }
+    if (options.scene !== undefined) {
+        const scene = String(options.scene);
+        const sceneId = /^\d+$/.test(scene) ? Number(scene) : getSceneId(scene);
+        if (sceneId === undefined || !WIZ_SCENES[sceneId]) {
+            throw new Error(`Unknown scene ${scene}`);
+        }
+        params.sceneId = sceneId;
+    }
+    if (options.speed !== undefined) {
+        params.speed = number('speed', 10, 200);
+    }
+    if (!Object.keys(params).length) {
+        throw new Error('Nothing to set, use --state, --dimming, --temp or --scene');
+    }
+    return params;
+}
+
+/**
+ * Describes a state in a single line, e.g. "on, 50%, 2700K"
+ */
+export function formatPilot(pilot: Partial<IWizPilot>): string {
+    const parts = [pilot.state ? 'on' : 'off'];
+    if (pilot.dimming !== undefined) {
+        parts.push(`${pilot.dimming}%`);
+    }
+    if (pilot.sceneId) {
+        parts.push(`scene ${WIZ_SCENES[pilot.sceneId] ?? pilot.sceneId}`);
+    } else if (pilot.temp) {
+        parts.push(`${pilot.temp}K`);
+    } else if (pilot.r !== undefined) {
+        parts.push(`rgb(${pilot.r}, ${pilot.g}, ${pilot.b}) c${pilot.c ?? 0} w${pilot.w ?? 0}`);
+    }
+    if (pilot.rssi !== undefined) {
+        parts.push(`${pilot.rssi} dBm`);
+    }
+    return parts.join(', ');
+}
+
+function formatDevice(device: IWizScannedDevice): string {
+    const type = device.type ? `${device.type} (${device.moduleName})` : 'unknown type';
+    const rssi = device.rssi !== undefined ? `, ${device.rssi} dBm` : '';
+    return `${device.ip.padEnd(15)}  ${device.mac}  ${type}, firmware ${device.fwVersion ?? 'unknown'}${rssi}`;
+}
+
+function requireIp(args: string[]): string {
+    if (!args[0]) {
+        throw new Error('The ip of the device is missing');
+    }
+    return args[0];
+}
+
+function discover(context: ICliContext): Promise<IWizScannedDevice[]> {
+    return scanWizDevices(context.transport, {
+        broadcastAddress: String(context.options.broadcast ?? '255.255.255.255'),
+        timeout: Number(context.options.timeout ?? 3) * 1000,
+        localAddress: context.bindAddress,
+    });
+}
+
+const COMMANDS: { [name: string]: (context: ICliContext, args: string[]) => Promise<void> } = {
+    async discover(context) {
+        const devices = await discover(context);
+        context.print(devices, devices.length ? devices.map(formatDevice).join('\n') : 'No devices found');
+    },
+
+    async get(context, args) {
+        const ip = requireIp(args);
+        const pilot = await context.transport.request(ip, 'getPilot');
+        const capabilities = await getWizDeviceCapabilities(context.transport, ip);
+        const device = { ip, ...capabilities, ...pilot.result };
+        const type = capabilities ? `${capabilities.type} (${capabilities.moduleName})` : 'unknown type';
+        context.print(device, `${ip}  ${pilot.result.mac}  ${type}\n${formatPilot(pilot.result)}`);
+    },
+
+    async set(context, args) {
+        const ip = requireIp(args);
+        const params = getSetPilotParams(context.options);
+        await context.transport.request(ip, 'setPilot', params);
+        const pilot = await context.transport.request(ip, 'getPilot');
+        context.print(pilot.result, formatPilot(pilot.result));
+    },
+
+    async identify(context, args) {
+        const ip = requireIp(args);
+        await identifyWizDevice(context.transport, ip);
+        context.print({ ip, identified: true }, `${ip} blinked`);
+    },
+
+    async watch(context, args) {
+        const ips = args.length ? args : (await discover(context)).map(device => device.ip);
+        if (!ips.length) {
+            throw new Error('No devices found to watch');
+        }
+        const count = context.options.count !== undefined ? Number(context.options.count) : Infinity;
+
+        const log = createCliLogger(!!context.options.verbose);
+        const listener = new WizPushListener(log, getLocalAddress(context.bindAddress), context.bindAddress);
+        if (!await listener.start()) {
+            listener.stop();
+            // the reason is only logged with --verbose
+            throw new Error(`Cannot listen for the updates on UDP port ${WIZ_PUSH_PORT}, is Homebridge running on this host?`);
+        }
+        let received = 0;
+        let stop!: () => void;
+        await new Promise<void>((resolve) => {
+            stop = resolve;
+            listener.on('push', (push: IWizPushMessage, ip: string) => {
+                const time = new Date().toISOString();
+                // a device that just started has no state yet
+                const state = push.method === 'syncPilot' ? formatPilot(push.params) : 'started';
+                context.print({ ip, method: push.method, ...push.params }, `${time}  ${ip}  ${push.params.mac}  ${push.method}  ${state}`);
+                if (++received >= count) {
+                    resolve();
+                }
+            });
+            process.once('SIGINT', stop);
+            ips.forEach(ip => listener.register(ip));
+            if (!context.options.json) {
+                process.stderr.write(`Watching ${ips.join(', ')}, press Ctrl+C to stop\n`);
+            }
+        });
+        process.off('SIGINT', stop);
+        listener.stop();
+    },
+};
+
+/**
+ * A logger for the transport and push listener, it only prints with --verbose. Failed commands are reported by `runCli`.
+ */
+function createCliLogger(verbose: boolean): Logger {
+    const write = (level: string) => (message: string, ...parameters: unknown[]) => {
+        if (verbose) {
+            process.stderr.write(`[${level}] ${[message, ...parameters.map(parameter => JSON.stringify(parameter))].join(' ')}\n`);
+        }
+    };
+    return Object.assign(write('info'), {
+        prefix: 'wiz-helper',
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+        debug: write('debug'),
+        log: (level: string, message: string, ...parameters: unknown[]) => write(level)(message, ...parameters),
+    });
+}
+
+/**
+ * Runs the command line and resolves with the exit code. The results are written with `output`.
+ */
+export async function runCli(argv: string[], output: (text: string) => void = text => process.stdout.write(`${text}\n`)): Promise<number> {
+    let parsed: ICliArguments;
+    try {
+        parsed = parseArguments(argv);
+        checkOptions(parsed.options);
+    } catch (error) {
+        process.stderr.write(`${error.message}\n\n${USAGE}`);
+        return 2;
+    }
+    const command = parsed.command && COMMANDS[parsed.command];
+    if (!command || parsed.options.help) {
+        output(USAGE);
+        return command || parsed.options.help || parsed.command === 'help' ? 0 : 2;
+    }
+
+    const bindAddress = parsed.options.interface ? getLocalAddress(String(parsed.options.interface))?.address : undefined;
+    if (parsed.options.interface && !bindAddress) {
+        process.stderr.write(`Cannot find the network interface ${parsed.options.interface}\n`);
+        return 1;
+    }
+    const transport = new WizTransport(createCliLogger(!!parsed.options.verbose), { timeout: 1000, retries: 2, localAddress: bindAddress });
+    const context: ICliContext = {
+        transport,
+        options: parsed.options,
+        bindAddress,
+        print: (value, text) => output(parsed.options.json ? JSON.stringify(value) : text),
+    };
+
+    try {
+        await command(context, parsed.args);
+        return 0;
+    } catch (error) {
+        // a device answering with an error has the method and code in the message already
+        process.stderr.write(error instanceof WizTimeoutError ? `${error.ip} does not answer\n` : `${error.message}\n`);
+        return 1;
+    } finally {
+        transport.close();
+    }
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(code => process.exit(code));
+}
@@ -0,0 +1,77 @@
+import assert from 'assert';
+
+import { getMiredRange, hsToWizColor, kelvinToMired, miredToKelvin, wizColorToHs } from './color';
+
+describe('color', () => {
+    describe('miredToKelvin / kelvinToMired', () => {
+        it('converts with 1,000,000 / value', () => {
+            assert.strictEqual(miredToKelvin(250), 4000);
+            assert.strictEqual(kelvinToMired(4000), 250);
+            assert.strictEqual(miredToKelvin(370), 2703);
+            assert.strictEqual(kelvinToMired(6500), 154);
+        });
+
+        it('maps the coolest white to the lowest mired', () => {
+            const [min, max] = getMiredRange([2700, 6500]);
+            assert.strictEqual(min, 154);
+            assert.strictEqual(max, 370);
+            assert.ok(miredToKelvin(min) > miredToKelvin(max));
+        });
+
+        it('clamps to the white range of the bulb', () => {
+            assert.strictEqual(miredToKelvin(500, [2700, 6500]), 2700);
+            assert.strictEqual(miredToKelvin(140, [2700, 6500]), 6500);
+            assert.strictEqual(kelvinToMired(2200, [2700, 6500]), 370);
+            assert.strictEqual(kelvinToMired(10000, [2700, 6500]), 154);
+        });
+
+        it('uses the extended range of 2200K bulbs', () => {
+            assert.deepStrictEqual(getMiredRange([2200, 6500]), [154, 454]);
+            assert.strictEqual(miredToKelvin(454, [2200, 6500]), 2203);
+        });
+
+        it('stays within the HomeKit range', () => {
+            assert.deepStrictEqual(getMiredRange([1000, 10000]), [140, 500]);
+        });
+
+        for (const whiteRange of [[2700, 6500], [2200, 6500], [2200, 5500]] as [number, number][]) {
+            it(`round-trips every mired value of ${whiteRange[0]}K - ${whiteRange[1]}K`, () => {
+                const [min, max] = getMiredRange(whiteRange);
+                for (let mired = min; mired <= max; mired++) {
+                    const kelvin = miredToKelvin(mired, whiteRange);
+                    assert.ok(kelvin >= whiteRange[0] && kelvin <= whiteRange[1], `${kelvin}K is out of range`);
+                    assert.strictEqual(kelvinToMired(kelvin, whiteRange), mired);
+                }
+            });
+
+            it(`round-trips every kelvin value of ${whiteRange[0]}K - ${whiteRange[1]}K within a mired`, () => {
+                for (let kelvin = whiteRange[0]; kelvin <= whiteRange[1]; kelvin += 10) {
+                    const roundTripped = miredToKelvin(kelvinToMired(kelvin, whiteRange), whiteRange);
+                    // HomeKit only knows whole mireds within the range, one mired at 6500K is about 42K
+                    assert.ok(Math.abs(1000000 / roundTripped - 1000000 / kelvin) <= 1, `${kelvin}K became ${roundTripped}K`);
+                }
+            });
+        }
+    });
+
+    describe('hsToWizColor / wizColorToHs', () => {
+        it('converts fully saturated colours to rgb only', () => {
+            assert.deepStrictEqual(hsToWizColor(0, 100), { r: 255, g: 0, b: 0, c: 0, w: 0 });
+            assert.deepStrictEqual(hsToWizColor(240, 100), { r: 0, g: 0, b: 255, c: 0, w: 0 });
+        });
+
+        it('sends the white part to the warm white led', () => {
+            assert.deepStrictEqual(hsToWizColor(120, 0), { r: 0, g: 0, b: 0, c: 0, w: 255 });
+        });
+
+        it('round-trips hue and saturation', () => {
+            for (let hue = 0; hue < 360; hue += 15) {
+                for (const saturation of [25, 50, 75, 100]) {
+                    const result = wizColorToHs(hsToWizColor(hue, saturation));
+                    assert.ok(Math.abs(result.saturation - saturation) <= 1, `saturation ${saturation} became ${result.saturation}`);
+                    assert.ok(Math.abs(result.hue - hue) <= 1, `hue ${hue} became ${result.hue}`);
+                }
+            }
+        });
+    });
+});
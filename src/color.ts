@@ -0,0 +1,99 @@
+/**
+ * The colour channels of a WiZ setPilot/getPilot, all 0-255.
+ * c is the cold white led, w the warm white led.
+ */
+export interface IWizColor {
+    r: number;
+    g: number;
+    b: number;
+    c: number;
+    w: number;
+}
+
+/**
+ * Converts a HomeKit hue (0-360) and saturation (0-100) to WiZ colour channels.
+ * The white part of the colour is sent to the warm white led, which gives softer pastel colours than mixing rgb.
+ */
+export function hsToWizColor(hue: number, saturation: number): IWizColor {
+    const s = Math.min(Math.max(saturation, 0), 100) / 100;
+    const h = ((hue % 360) + 360) % 360 / 60;
+    const x = 1 - Math.abs((h % 2) - 1);
+    const [r, g, b] = [
+        [1, x, 0],
+        [x, 1, 0],
+        [0, 1, x],
+        [0, x, 1],
+        [x, 0, 1],
+        [1, 0, x],
+    ][Math.floor(h)];
+
+    // HSV with a value of 1: every channel is 1 - s + s * channel, the 1 - s part is white
+    return {
+        r: Math.round(255 * s * r),
+        g: Math.round(255 * s * g),
+        b: Math.round(255 * s * b),
+        c: 0,
+        w: Math.round(255 * (1 - s)),
+    };
+}
+
+/**
+ * Converts WiZ colour channels back to a HomeKit hue (0-360) and saturation (0-100).
+ */
+export function wizColorToHs(color: Partial<IWizColor>): { hue: number; saturation: number } {
+    const white = (color.c ?? 0) + (color.w ?? 0);
+    const [r, g, b] = [color.r ?? 0, color.g ?? 0, color.b ?? 0].map(channel => Math.min(channel + white, 255) / 255);
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+    if (max === 0 || delta === 0) {
+        return { hue: 0, saturation: 0 };
+    }
+
+    let hue: number;
+    if (max === r) {
+        hue = ((g - b) / delta) % 6;
+    } else if (max === g) {
+        hue = (b - r) / delta + 2;
+    } else {
+        hue = (r - g) / delta + 4;
+    }
+    return {
+        hue: Math.round((hue * 60 + 360) % 360),
+        saturation: Math.round(delta / max * 100),
+    };
+}
+
+// the white range of most WiZ bulbs, used when the bulb doesn't report its own
+export const DEFAULT_WHITE_RANGE: [number, number] = [2700, 6500];
+
+// the range of the HomeKit ColorTemperature characteristic, in mired
+const HOMEKIT_MIRED_RANGE: [number, number] = [140, 500];
+
+/**
+ * Returns the [min, max] mired range HomeKit can use for a bulb with the given white range (kelvin).
+ * Mired is 1,000,000 / kelvin, so the coolest white is the lowest mired value.
+ */
+export function getMiredRange(whiteRange: [number, number] = DEFAULT_WHITE_RANGE): [number, number] {
+    const min = Math.max(Math.ceil(1000000 / Math.max(...whiteRange)), HOMEKIT_MIRED_RANGE[0]);
+    const max = Math.min(Math.floor(1000000 / Math.min(...whiteRange)), HOMEKIT_MIRED_RANGE[1]);
+    return [min, max];
+}
+
+/**
+ * Converts a HomeKit colour temperature (mired) to the kelvin the bulb understands, within the range of the bulb
+ */
+export function miredToKelvin(mired: number, whiteRange: [number, number] = DEFAULT_WHITE_RANGE): number {
+    const kelvin = Math.round(1000000 / mired);
+    return Math.min(Math.max(kelvin, Math.min(...whiteRange)), Math.max(...whiteRange));
+}
+
+/**
+ * Converts the kelvin the bulb reports to a HomeKit colour temperature (mired), within the range of the bulb
+ */
+export function kelvinToMired(kelvin: number, whiteRange: [number, number] = DEFAULT_WHITE_RANGE): number {
+    const [min, max] = getMiredRange(whiteRange);
+    const mired = Math.round(1000000 / kelvin);
+    return Math.min(Math.max(mired, min), max);
+}
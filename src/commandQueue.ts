@@ -0,0 +1,101 @@
+import { IWizPilot, IWizSetPilotParams } from './protocol';
+import { clampDimming } from './transition';
+
+// params that put the light in white mode, colour mode or a scene, a newer one replaces the others
+const WHITE_PARAMS: (keyof IWizSetPilotParams)[] = ['temp'];
+const COLOR_PARAMS: (keyof IWizSetPilotParams)[] = ['r', 'g', 'b', 'c', 'w'];
+const SCENE_PARAMS: (keyof IWizSetPilotParams)[] = ['sceneId', 'speed'];
+
+/**
+ * Collects the setPilot params of the changes HomeKit sends in a short window and sends them as a single setPilot.
+ * Dragging a slider in the Home app sends dozens of changes, sending each one makes the light flicker and the
+ * answers can arrive out of order. Later values overwrite earlier ones, so the last value always wins.
+ */
+export class WizCommandQueue {
+    private pending: IWizSetPilotParams = {};
+    private waiting: { resolve: () => void; reject: (error: Error) => void }[] = [];
+    private timer?: NodeJS.Timeout;
+    // the batch that is being sent, the next one waits for it to keep the order
+    private sending: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly send: (params: IWizSetPilotParams) => Promise<unknown>,
+        // ms
+        private readonly delay = 100,
+    ) {
+    }
+
+    /**
+     * Adds the params to the next setPilot, resolves once that setPilot was answered
+     */
+    push(params: IWizSetPilotParams): Promise<void> {
+        this.pending = mergeParams(this.pending, params);
+        if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.delay);
+        }
+        return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+    }
+
+    /**
+     * Sends the collected params right away
+     */
+    flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        const params = this.pending;
+        const waiting = this.waiting;
+        this.pending = {};
+        this.waiting = [];
+        if (!waiting.length) {
+            return this.sending;
+        }
+
+        this.sending = this.sending.then(() => this.send(params)).then(() => {
+            waiting.forEach(promise => promise.resolve());
+        }, (error: Error) => {
+            waiting.forEach(promise => promise.reject(error));
+        });
+        return this.sending;
+    }
+}
+
+/**
+ * Merges newer setPilot params into older ones. Switching to white, a colour or a scene drops
+ * the params of the other modes, otherwise the light would get conflicting instructions.
+ */
+export function mergeParams(pending: IWizSetPilotParams, params: IWizSetPilotParams): IWizSetPilotParams {
+    const has = (keys: (keyof IWizSetPilotParams)[]) => keys.some(key => params[key] !== undefined);
+    const dropped = [
+        ...(has(WHITE_PARAMS) ? [...COLOR_PARAMS, ...SCENE_PARAMS] : []),
+        ...(has(COLOR_PARAMS) ? [...WHITE_PARAMS, ...SCENE_PARAMS] : []),
+        ...(has(SCENE_PARAMS) ? [...WHITE_PARAMS, ...COLOR_PARAMS] : []),
+    ];
+    const merged = { ...pending };
+    dropped.forEach(key => delete merged[key]);
+    return { ...merged, ...params };
+}
+
+/**
+ * Turns a reported state back into the setPilot params that show it again: the state, the brightness and either the
+ * scene, the colour or the white temperature, depending on the mode the device was in.
+ * The dimming is kept within the 10-100% the devices accept, identifying sends these params without `setPilot`.
+ */
+export function getRestoreParams(pilot: IWizPilot): IWizSetPilotParams {
+    if (!pilot.state) {
+        return { state: false };
+    }
+    const params: IWizSetPilotParams = { state: true };
+    if (pilot.dimming !== undefined) {
+        params.dimming = pilot.dimming;
+    }
+    if (pilot.sceneId) {
+        params.sceneId = pilot.sceneId;
+    } else if (pilot.r !== undefined) {
+        Object.assign(params, { r: pilot.r, g: pilot.g, b: pilot.b, c: pilot.c, w: pilot.w });
+    } else if (pilot.temp) {
+        params.temp = pilot.temp;
+    }
+    return clampDimming(params);
+}
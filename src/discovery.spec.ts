@@ -0,0 +1,98 @@
+import assert from 'assert';
+
+import { parseCidr, scanWizDevices, scanWizRanges } from './discovery';
+import { identifyWizDevice } from './identify';
+import { WizTransport } from './transport';
+import { MockWizDevice } from './mocks/wizDevice';
+import { createMockLogger } from './mocks/homebridge';
+
+describe('discovery', function () {
+    // identifying blinks the device for a few seconds
+    this.timeout(5000);
+
+    let device: MockWizDevice;
+    let transport: WizTransport;
+
+    beforeEach(async () => {
+        device = new MockWizDevice({
+            ip: '127.0.0.2',
+            mac: 'a8bb50000001',
+            moduleName: 'ESP14_SHTW1C_01',
+            whiteRange: [2200, 6500],
+            pilot: { rssi: -55 },
+        });
+        await device.start();
+        transport = new WizTransport(createMockLogger(), { timeout: 100, retries: 1 });
+    });
+
+    afterEach(async () => {
+        transport.close();
+        await device.stop();
+    });
+
+    describe('scanWizDevices', () => {
+        it('lists the devices with their type and signal', async () => {
+            const devices = await scanWizDevices(transport, { broadcastAddress: '127.0.0.2', timeout: 200 });
+
+            assert.deepStrictEqual(devices, [{
+                ip: '127.0.0.2',
+                mac: 'a8bb50000001',
+                type: 'WHITE_LIGHT',
+                moduleName: 'ESP14_SHTW1C_01',
+                fwVersion: '1.26.0',
+                rssi: -55,
+            }]);
+        });
+
+        it('adds the devices found in the ranges the broadcast does not reach', async () => {
+            const devices = await scanWizDevices(transport, { broadcastAddress: '127.0.0.254', timeout: 200, ranges: ['127.0.0.2/32'] });
+
+            assert.deepStrictEqual(devices.map(device => [device.ip, device.type]), [['127.0.0.2', 'WHITE_LIGHT']]);
+        });
+
+        it('lists a device the broadcast and the range scan both found once', async () => {
+            const devices = await scanWizDevices(transport, { broadcastAddress: '127.0.0.2', timeout: 200, ranges: ['127.0.0.2/32'] });
+
+            assert.strictEqual(devices.length, 1);
+        });
+    });
+
+    describe('scanWizRanges', () => {
+        it('finds the devices the broadcast does not reach', async () => {
+            const devices = await scanWizRanges({ ranges: ['127.0.0.0/30'], timeout: 200, rate: 100 });
+
+            assert.deepStrictEqual(devices.map(device => [device.ip, device.mac]), [['127.0.0.2', 'a8bb50000001']]);
+            assert.strictEqual(devices[0].pilot?.result.rssi, -55);
+        });
+    });
+
+    describe('parseCidr', () => {
+        it('lists the host addresses of a range', () => {
+            assert.deepStrictEqual(parseCidr('192.168.20.0/30'), ['192.168.20.1', '192.168.20.2']);
+            assert.deepStrictEqual(parseCidr('192.168.20.7/29').length, 6);
+            assert.deepStrictEqual(parseCidr('10.0.0.5'), ['10.0.0.5']);
+            assert.deepStrictEqual(parseCidr('255.255.255.254/31'), ['255.255.255.254', '255.255.255.255']);
+        });
+
+        it('refuses invalid and too large ranges', () => {
+            assert.throws(() => parseCidr('192.168.20.0/33'), /Invalid range/);
+            assert.throws(() => parseCidr('192.168.256.0/24'), /Invalid range/);
+            assert.throws(() => parseCidr('10.0.0.0/8'), /Invalid range/);
+            assert.throws(() => parseCidr('bulbs'), /Invalid range/);
+        });
+    });
+
+    describe('identifyWizDevice', () => {
+        it('blinks the device and restores its state', async () => {
+            device.pilot.dimming = 40;
+            device.pilot.temp = 3000;
+
+            await identifyWizDevice(transport, '127.0.0.2');
+
+            const states = device.requests.filter(request => request.method === 'setPilot').map(request => request.params.state);
+            assert.deepStrictEqual(states, [false, true, false, true, false, true, false]);
+            assert.strictEqual(device.pilot.dimming, 40);
+            assert.strictEqual(device.pilot.temp, 3000);
+        });
+    });
+});
@@ -0,0 +1,278 @@
+import udp from 'dgram';
+
+import { IWizDevice, IWizDeviceCapabilities } from './platform';
+import { IWizPilotResponse, IWizResponse, parseResponse, WizMethod } from './protocol';
+import { delay, WizTransport } from './transport';
+
+export const WIZ_PORT = 38899;
+
+export interface IWizDiscoveryOptions {
+    broadcastAddress: string;
+    // how long (in ms) to listen for answers after the first broadcast
+    timeout: number;
+    // how often (in ms) the broadcast is repeated while listening, since UDP packets can get lost
+    interval?: number;
+    // the local address the socket binds to, all interfaces when not set
+    localAddress?: string;
+}
+
+export interface IWizRangeScanOptions {
+    // CIDR ranges, e.g. 192.168.20.0/24, or single addresses
+    ranges: string[];
+    // how long (in ms) to listen for answers after the last request
+    timeout: number;
+    // requests per second
+    rate: number;
+    localAddress?: string;
+}
+
+export interface IWizScanOptions extends IWizDiscoveryOptions {
+    // CIDR ranges the broadcast doesn't reach, scanned as well
+    ranges?: string[];
+    // requests per second of the range scan
+    rate?: number;
+}
+
+export interface IWizDiscoveredDevice {
+    ip: string;
+    mac: string;
+    // only set when the device answered the getPilot broadcast, the registration answer has no state
+    pilot?: IWizPilotResponse;
+}
+
+/**
+ * Broadcasts `getPilot` and `registration` on the WiZ port and collects every device that answers.
+ * Devices are keyed by their IP, a device answering both broadcasts is only returned once.
+ */
+export function discoverWizDevices(options: IWizDiscoveryOptions): Promise<IWizDiscoveredDevice[]> {
+    return new Promise((resolve) => {
+        const found: { [ip: string]: IWizDiscoveredDevice } = {};
+        const client = udp.createSocket('udp4');
+
+        const messages = [
+            {
+                method: 'getPilot',
+                params: {},
+            },
+            {
+                method: 'registration',
+                params: {
+                    phoneMac: 'AAAAAAAAAAAA',
+                    register: false,
+                    phoneIp: '1.2.3.4',
+                    id: '1',
+                },
+            },
+        ].map(message => Buffer.from(JSON.stringify(message)));
+
+        const broadcast = () => {
+            for (const message of messages) {
+                client.send(message, WIZ_PORT, options.broadcastAddress, () => {
+                    // Errors are not fatal here, the broadcast is repeated and the listen window still applies
+                });
+            }
+        };
+
+        client.on('message', (message, remote) => addAnswer(found, message, remote.address));
+
+        let timer: NodeJS.Timeout;
+        const finish = () => {
+            clearInterval(timer);
+            try {
+                client.close();
+            } catch (e) {
+                //
+            }
+            resolve(Object.values(found));
+        };
+
+        client.on('error', finish);
+
+        client.bind({ address: options.localAddress }, () => {
+            client.setBroadcast(true);
+            broadcast();
+            timer = setInterval(broadcast, options.interval ?? 1000);
+            setTimeout(finish, options.timeout);
+        });
+    });
+}
+
+/**
+ * Sends `getPilot` to every address of the ranges, `rate` requests per second so a large range doesn't flood
+ * the network. Reaches the devices on other subnets or VLANs, which the broadcast doesn't.
+ * Throws when a range is invalid.
+ */
+export async function scanWizRanges(options: IWizRangeScanOptions): Promise<IWizDiscoveredDevice[]> {
+    const ips = [...new Set(([] as string[]).concat(...options.ranges.map(parseCidr)))];
+    const found: { [ip: string]: IWizDiscoveredDevice } = {};
+    const client = udp.createSocket('udp4');
+    client.on('message', (message, remote) => addAnswer(found, message, remote.address));
+    client.on('error', () => {
+        // an address that can't be reached is not fatal, the others are still scanned
+    });
+
+    await new Promise<void>(resolve => client.bind({ address: options.localAddress }, () => resolve()));
+    const message = Buffer.from(JSON.stringify({ method: 'getPilot', params: {} }));
+    for (const ip of ips) {
+        client.send(message, WIZ_PORT, ip, () => {
+            // the device answers or it doesn't, there is nothing to handle here
+        });
+        await delay(1000 / options.rate);
+    }
+    await delay(options.timeout);
+    client.close();
+    return Object.values(found);
+}
+
+/**
+ * Lists the host addresses of a CIDR range, e.g. 192.168.20.0/30 gives 192.168.20.1 and 192.168.20.2.
+ * A single address is returned as is. Ranges larger than a /16 are refused, scanning them would take hours.
+ */
+export function parseCidr(range: string): string[] {
+    const match = range.trim().match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})(?:\/(\d{1,2}))?$/);
+    const octets = match ? match.slice(1, 5).map(Number) : [];
+    const prefix = match?.[5] !== undefined ? Number(match[5]) : 32;
+    if (!match || octets.some(octet => octet > 255) || prefix < 16 || prefix > 32) {
+        throw new Error(`Invalid range ${range}, expected e.g. 192.168.20.0/24 (/16 or smaller)`);
+    }
+
+    const size = Math.pow(2, 32 - prefix);
+    const network = Math.floor(octets.reduce((address, octet) => address * 256 + octet, 0) / size) * size;
+    // the network and broadcast address are no hosts, except in the /31 and /32 ranges
+    const [first, last] = size > 2 ? [network + 1, network + size - 2] : [network, network + size - 1];
+
+    const ips: string[] = [];
+    for (let address = first; address <= last; address++) {
+        ips.push([24, 16, 8, 0].map(shift => (address / Math.pow(2, shift)) & 255).join('.'));
+    }
+    return ips;
+}
+
+/**
+ * Stores the device that answered a discovery request, keyed by its ip
+ */
+function addAnswer(found: { [ip: string]: IWizDiscoveredDevice }, message: Buffer, ip: string) {
+    let answer: IWizResponse<'getPilot' | 'registration'>;
+    try {
+        const response = JSON.parse(message.toString());
+        if (response?.method !== 'getPilot' && response?.method !== 'registration') {
+            return;
+        }
+        answer = parseResponse(ip, response.method, response);
+    } catch (e) {
+        // not a WiZ device, or one that answered with an error
+        return;
+    }
+    const device = found[ip] ?? { ip, mac: answer.result.mac };
+    if (answer.method === 'getPilot') {
+        device.pilot = answer as IWizPilotResponse;
+    }
+    found[ip] = device;
+}
+
+export interface IWizScannedDevice {
+    ip: string;
+    mac: string;
+    // undefined when the device didn't answer getSystemConfig
+    type?: IWizDevice['type'];
+    moduleName?: string;
+    fwVersion?: string;
+    // dBm
+    rssi?: number;
+}
+
+/**
+ * Discovers the devices, also in the `ranges`, and asks each of them what it is, for listing them outside of Homebridge.
+ * Rejects when a range is invalid.
+ */
+export async function scanWizDevices(transport: WizTransport, options: IWizScanOptions): Promise<IWizScannedDevice[]> {
+    const { ranges = [], rate = 50, ...discoveryOptions } = options;
+    const [broadcast, scanned] = await Promise.all([
+        discoverWizDevices(discoveryOptions),
+        ranges.length
+            ? scanWizRanges({ ranges, rate, timeout: options.timeout, localAddress: options.localAddress })
+            : Promise.resolve([] as IWizDiscoveredDevice[]),
+    ]);
+    const discovered = [...broadcast, ...scanned.filter(device => !broadcast.some(found => found.ip === device.ip))];
+    return Promise.all(discovered.map(async (device) => {
+        const pilot = device.pilot ?? await requestQuietly(transport, device.ip, 'getPilot');
+        const capabilities = await getWizDeviceCapabilities(transport, device.ip);
+        return {
+            ip: device.ip,
+            mac: device.mac,
+            type: capabilities?.type,
+            moduleName: capabilities?.moduleName,
+            fwVersion: capabilities?.fwVersion,
+            rssi: pilot?.result?.rssi,
+        };
+    }));
+}
+
+/**
+ * Detects what the device is capable of. `getPilot` can't be used for this, a light that is off
+ * reports no dimming or temp and a light running a scene reports no temp.
+ * Instead the module name of `getSystemConfig` is used, together with the white range the device reports.
+ * Resolves with null when the device doesn't answer.
+ */
+export async function getWizDeviceCapabilities(transport: WizTransport, ip: string): Promise<IWizDeviceCapabilities|null> {
+    const systemConfig = await requestQuietly(transport, ip, 'getSystemConfig');
+    if (!systemConfig) {
+        return null;
+    }
+    const moduleName = systemConfig.result.moduleName;
+    const whiteRange = await getWhiteRange(transport, ip);
+    return {
+        type: detectWizDeviceType(moduleName, whiteRange),
+        moduleName,
+        fwVersion: systemConfig.result.fwVersion,
+        whiteRange,
+    };
+}
+
+/**
+ * Newer firmware reports the white range in `getModelConfig`, older firmware
+ * in `getExtendedWhiteRange` (bulbs going down to 2200K) or `getWhiteRange`.
+ */
+async function getWhiteRange(transport: WizTransport, ip: string): Promise<[number, number]|undefined> {
+    const modelConfig = await requestQuietly(transport, ip, 'getModelConfig');
+    const cctRange = modelConfig?.result?.cctRange;
+    if (cctRange && cctRange.length) {
+        return [Math.min(...cctRange), Math.max(...cctRange)];
+    }
+    for (const method of ['getExtendedWhiteRange', 'getWhiteRange'] as const) {
+        const whiteRange = (await requestQuietly(transport, ip, method))?.result.whiteRange;
+        if (whiteRange && whiteRange.length) {
+            return [Math.min(...whiteRange), Math.max(...whiteRange)];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * A request that is allowed to fail, older firmware doesn't know every method
+ */
+function requestQuietly<M extends WizMethod>(transport: WizTransport, ip: string, method: M): Promise<IWizResponse<M>|null> {
+    return transport.request(ip, method, {}, { quiet: true }).catch(() => null);
+}
+
+/**
+ * Classifies a device by its module name, e.g. ESP01_SHRGB1C_31 (RGBTW), ESP14_SHTW1C_01 (tunable white),
+ * ESP06_SHDW9_01 (dimmable white) or ESP10_SOCKET_06 (plug).
+ * Unknown modules that report a white range are assumed to be tunable white.
+ */
+export function detectWizDeviceType(moduleName: string, whiteRange?: [number, number]): IWizDevice['type'] {
+    const name = (moduleName || '').toUpperCase();
+    if (name.includes('SOCKET') || name.includes('PLUG')) {
+        return 'SWITCH';
+    }
+    if (name.includes('RGB')) {
+        return 'RGB_LIGHT';
+    }
+    if (name.includes('TW')) {
+        return 'WHITE_LIGHT';
+    }
+    if (name.includes('DW')) {
+        return 'DIMMABLE_LIGHT';
+    }
+    return whiteRange && whiteRange[0] < whiteRange[1] ? 'WHITE_LIGHT' : 'DIMMABLE_LIGHT';
+}
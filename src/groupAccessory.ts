@@ -0,0 +1,140 @@
+import { IWizDevice } from './platform';
+import { IWizPilot, IWizResponse, WizMethod, WizParams } from './protocol';
+import { HomebridgeWizLight } from './platformAccessory';
+import { WizTimeoutError } from './transport';
+import { identifyWizDevice } from './identify';
+
+/**
+ * Group Accessory
+ * Several lights that act as a single one. HomeKit sees a light with the handlers of HomebridgeWizLight,
+ * every setPilot is sent to all members at the same time and the state is combined from what the members push.
+ * The members are stored in `accessory.context.group.members`, with the last state each of them reported.
+ */
+export class HomebridgeWizGroup extends HomebridgeWizLight {
+
+    get members(): IWizDevice[] {
+        return this.accessory.context.group.members;
+    }
+
+    /**
+     * The members report their own signal strength, a group has none
+     */
+    protected configureDiagnostics() {
+        // nothing to show
+    }
+
+    /**
+     * Lets all members blink at the same time
+     */
+    identify() {
+        this.platform.log.info(`Identifying the group ${this.accessory.displayName}`);
+        for (const member of this.members) {
+            identifyWizDevice(this.platform.transport, member.ip).catch((error: Error) => {
+                this.platform.log.error(`Cannot identify ${member.mac} of ${this.accessory.displayName}:`, error.message);
+            });
+        }
+    }
+
+    /**
+     * Listens to the pushes of every member instead of those of a single device
+     */
+    protected listen() {
+        this.applyPilot(this.combinePilots());
+        for (const member of this.members) {
+            this.subscribe(member.mac, (message, ip) => {
+                // a member that just started has no state yet, the accessory of the member restores it
+                if (message.method === 'syncPilot') {
+                    this.updateMember(member.mac, message.params, ip);
+                }
+            });
+            this.platform.pushListener.register(member.ip);
+        }
+    }
+
+    /**
+     * Stores the state a member pushed, a push only has the params of the current mode so it replaces the previous one
+     */
+    updateMember(mac: string, params: IWizPilot, ip: string) {
+        const index = this.members.findIndex(member => member.mac === mac);
+        if (index === -1) {
+            // another device answered at the ip of a member
+            this.platform.log.debug(`${mac} at ${ip} is not a member of ${this.accessory.displayName}`);
+            return;
+        }
+        const { type, moduleName, fwVersion, whiteRange } = this.members[index];
+        if (this.members[index].ip !== ip) {
+            this.platform.log.info(`${mac} of ${this.accessory.displayName} moved from ${this.members[index].ip} to ${ip}`);
+            this.platform.pushListener.register(ip);
+        }
+        this.members[index] = { ...params, ip, type, moduleName, fwVersion, whiteRange };
+        this.platform.reportDeviceSeen(this.accessory);
+        this.applyPilot(this.combinePilots());
+    }
+
+    /**
+     * Asks every member for its state, the group is seen as long as one of them answers
+     */
+    async poll() {
+        const members = [...this.members];
+        const responses = await Promise.all(members.map(member => this.platform.requestDevice(member.ip, 'getPilot')));
+        responses.forEach((response, index) => {
+            // another device may answer at the ip of a member that got a new one
+            if (response?.result.mac === members[index].mac) {
+                this.updateMember(members[index].mac, response.result, members[index].ip);
+            } else {
+                this.platform.log.debug(`${members[index].mac} of ${this.accessory.displayName} did not answer at ${members[index].ip}`);
+            }
+        });
+        if (!responses.some((response, index) => response?.result.mac === members[index].mac)) {
+            this.platform.reportDeviceFailure(this.accessory);
+        }
+    }
+
+    /**
+     * Sends the request to all members in parallel. Resolves with the first answer when at least one member
+     * accepted it, the members that didn't are logged. Rejects when none of them did.
+     */
+    async request<M extends WizMethod>(method: M, params: WizParams<M> = {}): Promise<IWizResponse<M>> {
+        this.platform.log.debug(`Sending ${method} to the group ${this.accessory.displayName}`);
+
+        const results = await Promise.all(this.members.map(member => {
+            return this.platform.transport.request(member.ip, method, params).then(
+                response => ({ member, response, error: undefined }),
+                (error: Error) => ({ member, response: undefined, error }),
+            );
+        }));
+        const failed = results.filter(result => result.error);
+        const succeeded = results.find(result => !result.error);
+
+        if (!succeeded) {
+            if (failed.every(result => result.error instanceof WizTimeoutError)) {
+                this.platform.reportDeviceFailure(this.accessory);
+            }
+            throw failed[0].error;
+        }
+        this.platform.reportDeviceSeen(this.accessory);
+        if (failed.length) {
+            const macs = failed.map(result => `${result.member.mac} (${result.member.ip})`).join(', ');
+            const name = this.accessory.displayName;
+            this.platform.log.warn(`${failed.length} of ${results.length} lights of ${name} did not accept ${method}: ${macs}`);
+        }
+        return succeeded.response!;
+    }
+
+    /**
+     * The group is on when any member is on, its brightness is the average of the members that are on.
+     * The colour, temperature and scene are taken from the first member that is on.
+     */
+    combinePilots(): IWizPilot {
+        const members = this.members.filter(member => member.state);
+        const shown = members.length ? members : this.members;
+        const dimmings = shown.map(member => member.dimming).filter(dimming => dimming !== undefined) as number[];
+        const sceneId = shown.every(member => member.sceneId === shown[0].sceneId) ? shown[0].sceneId : 0;
+        return {
+            ...shown[0],
+            state: members.length > 0,
+            dimming: dimmings.length ? Math.round(dimmings.reduce((sum, dimming) => sum + dimming, 0) / dimmings.length) : undefined,
+            sceneId,
+        };
+    }
+}
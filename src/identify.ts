@@ -0,0 +1,20 @@
+import { delay, WizTransport } from './transport';
+import { getRestoreParams } from './commandQueue';
+
+// how often the device blinks, and how long (ms) it stays on and off
+const BLINK_COUNT = 3;
+const BLINK_DURATION = 500;
+
+/**
+ * Lets the device blink, so it can be told apart from the others, and restores the state it had before
+ */
+export async function identifyWizDevice(transport: WizTransport, ip: string): Promise<void> {
+    const pilot = await transport.request(ip, 'getPilot');
+    for (let i = 0; i < BLINK_COUNT; i++) {
+        await transport.request(ip, 'setPilot', { state: false });
+        await delay(BLINK_DURATION);
+        await transport.request(ip, 'setPilot', { state: true });
+        await delay(BLINK_DURATION);
+    }
+    await transport.request(ip, 'setPilot', getRestoreParams(pilot.result));
+}
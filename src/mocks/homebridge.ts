@@ -0,0 +1,68 @@
+import { EventEmitter } from 'events';
+import * as hap from 'hap-nodejs';
+import { API, Logger, PlatformAccessory as IPlatformAccessory } from 'homebridge';
+import { PlatformAccessory } from 'homebridge/lib/platformAccessory';
+
+/**
+ * The part of the Homebridge API the platform uses. Accessories are kept in `registered` instead of being published,
+ * `didFinishLaunching` and `shutdown` are emitted by the test.
+ */
+export class MockHomebridgeAPI extends EventEmitter {
+    public readonly hap = hap;
+    public readonly platformAccessory = PlatformAccessory;
+    public readonly version = 2.7;
+    public readonly serverVersion = '1.3.9';
+
+    public readonly registered: IPlatformAccessory[] = [];
+    // every accessory passed to updatePlatformAccessories, in order
+    public readonly updated: IPlatformAccessory[] = [];
+
+    registerPlatformAccessories(pluginIdentifier: string, platformName: string, accessories: IPlatformAccessory[]) {
+        this.registered.push(...accessories);
+    }
+
+    updatePlatformAccessories(accessories: IPlatformAccessory[]) {
+        this.updated.push(...accessories);
+    }
+
+    unregisterPlatformAccessories(pluginIdentifier: string, platformName: string, accessories: IPlatformAccessory[]) {
+        for (const accessory of accessories) {
+            const index = this.registered.indexOf(accessory);
+            if (index !== -1) {
+                this.registered.splice(index, 1);
+            }
+        }
+    }
+
+    asAPI(): API {
+        return this as unknown as API;
+    }
+}
+
+export interface IMockLogger extends Logger {
+    // every message that was logged, with its level
+    messages: { level: string; message: string }[];
+}
+
+/**
+ * A logger that keeps the messages instead of printing them, set DEBUG to print them as well
+ */
+export function createMockLogger(): IMockLogger {
+    const messages: IMockLogger['messages'] = [];
+    const write = (level: string) => (message: string, ...parameters: unknown[]) => {
+        messages.push({ level, message });
+        if (process.env.DEBUG) {
+            // eslint-disable-next-line no-console
+            console.log(`[${level}] ${message}`, ...parameters);
+        }
+    };
+    return Object.assign(write('info'), {
+        prefix: 'test',
+        messages,
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+        debug: write('debug'),
+        log: (level: string, message: string, ...parameters: unknown[]) => write(level)(message, ...parameters),
+    });
+}
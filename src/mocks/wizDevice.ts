@@ -0,0 +1,227 @@
+import udp from 'dgram';
+import { EventEmitter } from 'events';
+
+import { WIZ_PORT } from '../discovery';
+import { WIZ_PUSH_PORT } from '../push';
+import { IWizPilot } from '../protocol';
+
+export type MockWizPilot = IWizPilot;
+
+export interface IMockWizDeviceOptions {
+    // a loopback address lets several devices listen on the WiZ port of the same host
+    ip: string;
+    mac: string;
+    moduleName?: string;
+    fwVersion?: string;
+    // kelvin, reported by getModelConfig, older firmware without it answers "Method not found"
+    whiteRange?: [number, number];
+    pilot?: Partial<MockWizPilot>;
+    // milliwatt, reported by getPower like a plug that measures its usage, other devices answer "Method not found"
+    power?: number;
+    // ms before a request is answered
+    latency?: number;
+    // 0-1, the chance that a request never reaches the device
+    packetLoss?: number;
+}
+
+export interface IMockWizRequest {
+    id?: number;
+    method: string;
+    params: Record<string, unknown>;
+    // the address the request was sent from
+    from: string;
+}
+
+/**
+ * A WiZ device that runs in the test process. It listens on the WiZ port of its own (loopback) address, answers
+ * getPilot, setPilot, getSystemConfig, getModelConfig, getPower and registration like a bulb or plug does and sends syncPilot
+ * to the registered host whenever its state changes.
+ * Emits `request` with every request that reaches it.
+ */
+export class MockWizDevice extends EventEmitter {
+    public ip: string;
+    public readonly mac: string;
+    public pilot: MockWizPilot;
+    public latency: number;
+    public packetLoss: number;
+    // sent instead of every answer when set, like a device with broken firmware, e.g. 'null'
+    public rawReply?: string;
+
+    // every request that reached the device, in order
+    public readonly requests: IMockWizRequest[] = [];
+
+    // the host that registered for syncPilot, from the phoneIp of the registration
+    public registeredIp?: string;
+
+    private socket?: udp.Socket;
+    private repliesToDrop = 0;
+
+    constructor(private readonly options: IMockWizDeviceOptions) {
+        super();
+        this.ip = options.ip;
+        this.mac = options.mac;
+        this.latency = options.latency ?? 0;
+        this.packetLoss = options.packetLoss ?? 0;
+        this.pilot = {
+            mac: options.mac,
+            rssi: -60,
+            src: '',
+            state: false,
+            sceneId: 0,
+            temp: 2700,
+            dimming: 100,
+            ...options.pilot,
+        };
+    }
+
+    start(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = udp.createSocket({ type: 'udp4', reuseAddr: true });
+            socket.on('message', (message, remote) => this.handleMessage(socket, message, remote));
+            socket.once('error', reject);
+            socket.bind(WIZ_PORT, this.ip, () => {
+                socket.removeListener('error', reject);
+                this.socket = socket;
+                resolve();
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve) => {
+            const socket = this.socket;
+            this.socket = undefined;
+            if (!socket) {
+                resolve();
+                return;
+            }
+            socket.close(() => resolve());
+        });
+    }
+
+    /**
+     * Moves the device to a new address, like a DHCP server handing out a new lease.
+     * The registration survives, so the next syncPilot comes from the new address.
+     */
+    async moveTo(ip: string) {
+        await this.stop();
+        this.ip = ip;
+        await this.start();
+    }
+
+    /**
+     * The next `count` requests are handled, but their answer gets lost
+     */
+    dropReplies(count = 1) {
+        this.repliesToDrop += count;
+    }
+
+    /**
+     * Changes the state like the WiZ app or a wall switch would and pushes it to the registered host
+     */
+    setPilot(pilot: Partial<MockWizPilot>) {
+        this.applyPilot(pilot);
+        this.sendSyncPilot();
+    }
+
+    /**
+     * Cuts the power and turns it back on: the device starts at full brightness and announces itself with firstBeat
+     */
+    powerCycle() {
+        this.pilot = { mac: this.mac, rssi: this.pilot.rssi, src: '', state: true, sceneId: 0, temp: 2700, dimming: 100 };
+        if (this.socket && this.registeredIp) {
+            const params = { mac: this.mac, homeId: 1, fwVersion: this.options.fwVersion ?? '1.26.0' };
+            const message = { method: 'firstBeat', env: 'pro', params };
+            this.socket.send(Buffer.from(JSON.stringify(message)), WIZ_PUSH_PORT, this.registeredIp);
+        }
+        this.sendSyncPilot();
+    }
+
+    sendSyncPilot() {
+        if (!this.socket || !this.registeredIp) {
+            return;
+        }
+        const message = { method: 'syncPilot', env: 'pro', params: { ...this.pilot } };
+        this.socket.send(Buffer.from(JSON.stringify(message)), WIZ_PUSH_PORT, this.registeredIp);
+    }
+
+    private handleMessage(socket: udp.Socket, message: Buffer, remote: udp.RemoteInfo) {
+        if (Math.random() < this.packetLoss) {
+            return;
+        }
+        let request: { id?: number; method: string; params?: Record<string, unknown> };
+        try {
+            request = JSON.parse(message.toString());
+        } catch (e) {
+            return;
+        }
+        const received: IMockWizRequest = { id: request.id, method: request.method, params: request.params ?? {}, from: remote.address };
+        this.requests.push(received);
+        this.emit('request', received);
+
+        const response = this.handleRequest(received);
+        if (this.repliesToDrop > 0) {
+            this.repliesToDrop--;
+            return;
+        }
+        setTimeout(() => {
+            // the device may have moved or stopped in the meantime
+            if (this.socket === socket) {
+                const reply = this.rawReply ?? JSON.stringify({ id: request.id, method: request.method, env: 'pro', ...response });
+                socket.send(Buffer.from(reply), remote.port, remote.address);
+            }
+        }, this.latency);
+    }
+
+    private handleRequest(request: IMockWizRequest): { result?: unknown; error?: { code: number; message: string } } {
+        switch (request.method) {
+            case 'getPilot':
+                return { result: { ...this.pilot } };
+            case 'setPilot':
+                this.applyPilot(request.params as Partial<MockWizPilot>);
+                // a real device pushes the change right after answering
+                setTimeout(() => this.sendSyncPilot(), this.latency);
+                return { result: { success: true } };
+            case 'getSystemConfig':
+                return {
+                    result: {
+                        mac: this.mac,
+                        moduleName: this.options.moduleName ?? 'ESP01_SHRGB1C_31',
+                        fwVersion: this.options.fwVersion ?? '1.26.0',
+                        homeId: 1,
+                        roomId: 1,
+                    },
+                };
+            case 'getModelConfig':
+                if (this.options.whiteRange) {
+                    return { result: { cctRange: [...this.options.whiteRange] } };
+                }
+                break;
+            case 'getPower':
+                if (this.options.power !== undefined) {
+                    return { result: { power: this.options.power } };
+                }
+                break;
+            case 'registration':
+                if (request.params.register) {
+                    this.registeredIp = request.params.phoneIp as string;
+                }
+                return { result: { mac: this.mac, success: true } };
+        }
+        return { error: { code: -32601, message: 'Method not found' } };
+    }
+
+    private applyPilot(pilot: Partial<MockWizPilot>) {
+        if (pilot.temp !== undefined || pilot.r !== undefined || pilot.sceneId !== undefined) {
+            // a device is in one mode at a time, it only reports the params of that mode
+            delete this.pilot.temp;
+            delete this.pilot.r;
+            delete this.pilot.g;
+            delete this.pilot.b;
+            delete this.pilot.c;
+            delete this.pilot.w;
+            this.pilot.sceneId = 0;
+        }
+        Object.assign(this.pilot, pilot);
+    }
+}
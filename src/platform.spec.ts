@@ -0,0 +1,585 @@
+import assert from 'assert';
+import { PlatformAccessory } from 'homebridge';
+
+import { HomebridgeWizHelper, IWizHelperConfig } from './platform';
+import { PLATFORM_NAME } from './settings';
+import { MockWizDevice } from './mocks/wizDevice';
+import { createMockLogger, IMockLogger, MockHomebridgeAPI } from './mocks/homebridge';
+
+const DEVICE_IP = '127.0.0.2';
+const DEVICE_MAC = 'a8bb50000001';
+
+/**
+ * Resolves once the condition holds, rejects when it doesn't within the timeout (ms)
+ */
+async function waitFor(condition: () => boolean, timeout = 1000): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeout) {
+            throw new Error('Timed out waiting for the condition');
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+describe('HomebridgeWizHelper', function () {
+    // the discovery listens for 200ms and a device that doesn't answer takes a few retries
+    this.timeout(5000);
+
+    let device: MockWizDevice;
+    let api: MockHomebridgeAPI;
+    let log: IMockLogger;
+    let platform: HomebridgeWizHelper;
+
+    /**
+     * Starts the platform like Homebridge does after restoring the cached accessories, without the discovery
+     */
+    async function restore(config: Partial<IWizHelperConfig> = {}, cached: PlatformAccessory[] = []) {
+        api = new MockHomebridgeAPI();
+        log = createMockLogger();
+        platform = new HomebridgeWizHelper(log, {
+            platform: PLATFORM_NAME,
+            broadcastAddress: DEVICE_IP,
+            discoveryTimeout: 0.2,
+            requestTimeout: 100,
+            requestRetries: 1,
+            ...config,
+        }, api.asAPI());
+        cached.forEach(accessory => platform.configureAccessory(accessory));
+        await platform.pushListener.start();
+        platform.restoreCachedAccessories();
+    }
+
+    /**
+     * Starts the platform and waits for the discovery and for the accessory to register for the pushes
+     */
+    async function launch(config: Partial<IWizHelperConfig> = {}, cached: PlatformAccessory[] = []) {
+        await restore(config, cached);
+        await platform.discoverDevices();
+        await waitFor(() => device.registeredIp !== undefined);
+    }
+
+    function getService(accessory: PlatformAccessory) {
+        return accessory.getService(platform.Service.Lightbulb)!;
+    }
+
+    beforeEach(async () => {
+        device = new MockWizDevice({
+            ip: DEVICE_IP,
+            mac: DEVICE_MAC,
+            moduleName: 'ESP01_SHRGB1C_31',
+            whiteRange: [2200, 6500],
+        });
+        await device.start();
+    });
+
+    afterEach(async () => {
+        api?.emit('shutdown');
+        await device.stop();
+    });
+
+    describe('discovery', () => {
+        it('registers a discovered light with the detected type', async () => {
+            await launch();
+
+            assert.strictEqual(api.registered.length, 1);
+            const accessory = api.registered[0];
+            assert.strictEqual(accessory.context.device.mac, DEVICE_MAC);
+            assert.strictEqual(accessory.context.device.type, 'RGB_LIGHT');
+            assert.deepStrictEqual(accessory.context.device.whiteRange, [2200, 6500]);
+            assert.ok(getService(accessory).testCharacteristic(platform.Characteristic.Hue));
+            assert.deepStrictEqual(getService(accessory).getCharacteristic(platform.Characteristic.ColorTemperature).props.maxValue, 454);
+        });
+
+        it('shows the MAC as serial number and the Wi-Fi signal', async () => {
+            await launch({ diagnostics: true, rssiWarning: -70 });
+            const information = api.registered[0].getService(platform.Service.AccessoryInformation)!;
+            const signal = information.getCharacteristic(platform.CustomCharacteristic.SignalStrength);
+
+            assert.strictEqual(information.getCharacteristic(platform.Characteristic.SerialNumber).value, 'A8:BB:50:00:00:01');
+            assert.strictEqual(signal.value, -60);
+
+            device.setPilot({ rssi: -75 });
+            await waitFor(() => signal.value === -75);
+            assert.ok(log.messages.some(message => message.level === 'warn' && message.message.includes('weak Wi-Fi signal')));
+        });
+
+        it('probes configured ips the broadcast does not reach', async () => {
+            await launch({
+                broadcastAddress: '127.0.0.254',
+                devices: [{ ip: DEVICE_IP, name: 'Desk Lamp' }],
+            });
+
+            assert.strictEqual(api.registered.length, 1);
+            assert.strictEqual(api.registered[0].displayName, 'Desk Lamp');
+        });
+
+        it('scans the configured ranges for devices the broadcast does not reach', async () => {
+            await launch({ broadcastAddress: '127.0.0.254', scanRanges: ['127.0.0.2/32'] });
+
+            assert.strictEqual(api.registered.length, 1);
+            assert.strictEqual(api.registered[0].context.device.ip, DEVICE_IP);
+        });
+
+        it('exposes plugs as an outlet', async () => {
+            await device.stop();
+            device = new MockWizDevice({ ip: DEVICE_IP, mac: DEVICE_MAC, moduleName: 'ESP10_SOCKET_06' });
+            await device.start();
+
+            await launch();
+
+            const accessory = api.registered[0];
+            assert.strictEqual(accessory.context.device.type, 'SWITCH');
+            assert.ok(accessory.getService(platform.Service.Outlet));
+            assert.strictEqual(accessory.getService(platform.Service.Lightbulb), undefined);
+        });
+
+        it('removes the light services of a plug that was cached as a light', async () => {
+            await device.stop();
+            device = new MockWizDevice({ ip: DEVICE_IP, mac: DEVICE_MAC, moduleName: 'ESP10_SOCKET_06' });
+            await device.start();
+            const cached = new api.platformAccessory('Cached Plug', api.hap.uuid.generate(DEVICE_MAC));
+            cached.context.device = { ip: DEVICE_IP, mac: DEVICE_MAC, type: 'RGB_LIGHT', state: true };
+            cached.addService(platform.Service.Lightbulb);
+            cached.addService(platform.Service.Switch, 'Ocean', 'scene-1');
+            cached.addService(platform.Service.Switch, 'Sunrise', 'routine-Sunrise');
+
+            await launch({
+                scenes: ['Ocean'],
+                routines: [{ name: 'Sunrise', duration: 1, from: { dimming: 10 }, to: { dimming: 100 } }],
+            }, [cached]);
+
+            assert.strictEqual(cached.context.device.type, 'SWITCH');
+            assert.ok(cached.getService(platform.Service.Outlet));
+            assert.strictEqual(cached.getService(platform.Service.Lightbulb), undefined);
+            assert.strictEqual(cached.getService(platform.Service.Switch), undefined);
+        });
+
+        it('shows the power usage of a plug that did not answer when it was restored from the cache', async () => {
+            await device.stop();
+            device = new MockWizDevice({ ip: DEVICE_IP, mac: DEVICE_MAC, moduleName: 'ESP10_SOCKET_06', power: 12500, packetLoss: 1 });
+            await device.start();
+            const cached = new api.platformAccessory('Cached Plug', api.hap.uuid.generate(DEVICE_MAC));
+            cached.context.device = { ip: DEVICE_IP, mac: DEVICE_MAC, type: 'SWITCH', state: true };
+            await restore({}, [cached]);
+            const outlet = cached.getService(platform.Service.Outlet)!;
+            const hasConsumption = () => outlet.characteristics.some(
+                characteristic => characteristic.UUID === platform.CustomCharacteristic.CurrentConsumption.UUID);
+            await new Promise(resolve => setTimeout(resolve, 400));
+            assert.ok(!hasConsumption());
+
+            device.packetLoss = 0;
+            await platform.pollDevices();
+
+            assert.ok(hasConsumption());
+            assert.strictEqual(outlet.getCharacteristic(platform.CustomCharacteristic.CurrentConsumption).value, 12.5);
+        });
+
+        it('updates a cached accessory instead of registering it again', async () => {
+            const cached = new api.platformAccessory('Cached Lamp', api.hap.uuid.generate(DEVICE_MAC));
+            cached.context.device = { ip: '127.0.0.3', mac: DEVICE_MAC, type: 'WHITE_LIGHT', state: false };
+
+            await launch({}, [cached]);
+
+            assert.strictEqual(api.registered.length, 0);
+            assert.ok(api.updated.includes(cached));
+            assert.strictEqual(cached.context.device.ip, DEVICE_IP);
+            assert.strictEqual(cached.context.device.type, 'RGB_LIGHT');
+            // the handler restored as a tunable white light is replaced by one for a colour light
+            assert.ok(getService(cached).testCharacteristic(platform.Characteristic.Hue));
+        });
+
+        it('removes the colour of a cached light that turns out to be tunable white', async () => {
+            await device.stop();
+            device = new MockWizDevice({ ip: DEVICE_IP, mac: DEVICE_MAC, moduleName: 'ESP14_SHTW1C_01' });
+            await device.start();
+            const cached = new api.platformAccessory('Cached Lamp', api.hap.uuid.generate(DEVICE_MAC));
+            cached.context.device = { ip: DEVICE_IP, mac: DEVICE_MAC, type: 'RGB_LIGHT', state: false };
+
+            await launch({}, [cached]);
+
+            assert.strictEqual(cached.context.device.type, 'WHITE_LIGHT');
+            assert.ok(getService(cached).testCharacteristic(platform.Characteristic.ColorTemperature));
+            assert.ok(!getService(cached).testCharacteristic(platform.Characteristic.Hue));
+            assert.ok(!getService(cached).testCharacteristic(platform.Characteristic.Saturation));
+        });
+
+        it('adds a removed device again once it is back', async () => {
+            await launch({ discoveryInterval: 0.005 });
+            platform.removeAccessory(api.registered[0], 'it has been offline for too long');
+            assert.strictEqual(api.registered.length, 0);
+
+            platform.startDiscovery();
+
+            await waitFor(() => api.registered.length === 1, 3000);
+            assert.strictEqual(api.registered[0].context.device.mac, DEVICE_MAC);
+        });
+
+        it('controls a cached accessory before the discovery finished', async () => {
+            const cached = new api.platformAccessory('Cached Lamp', api.hap.uuid.generate(DEVICE_MAC));
+            cached.context.device = { ip: DEVICE_IP, mac: DEVICE_MAC, type: 'WHITE_LIGHT', state: false, dimming: 50 };
+
+            await restore({}, [cached]);
+            await getService(cached).getCharacteristic(platform.Characteristic.On).handleSetRequest(true);
+
+            assert.strictEqual(device.pilot.state, true);
+            assert.ok(!device.requests.some(request => request.method === 'getSystemConfig'));
+        });
+    });
+
+    describe('light', () => {
+        it('sends the changes HomeKit makes in quick succession as a single setPilot', async () => {
+            await launch();
+            const service = getService(api.registered[0]);
+
+            // a scene or a slider in the Home app writes several characteristics at once
+            await Promise.all([
+                service.getCharacteristic(platform.Characteristic.On).handleSetRequest(true),
+                service.getCharacteristic(platform.Characteristic.Brightness).handleSetRequest(40),
+            ]);
+
+            assert.strictEqual(device.pilot.state, true);
+            assert.strictEqual(device.pilot.dimming, 40);
+            assert.strictEqual(device.requests.filter(request => request.method === 'setPilot').length, 1);
+        });
+
+        it('shows the state the device pushes', async () => {
+            await launch();
+            const service = getService(api.registered[0]);
+
+            device.setPilot({ state: true, dimming: 25 });
+
+            const brightness = service.getCharacteristic(platform.Characteristic.Brightness);
+            await waitFor(() => brightness.value === 25);
+            assert.strictEqual(service.getCharacteristic(platform.Characteristic.On).value, true);
+        });
+
+        it('retries a request whose answer got lost', async () => {
+            await launch();
+            const service = getService(api.registered[0]);
+
+            device.dropReplies(1);
+            await service.getCharacteristic(platform.Characteristic.On).handleSetRequest(true);
+            await waitFor(() => device.requests.filter(request => request.method === 'setPilot').length === 2);
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            assert.strictEqual(device.pilot.state, true);
+            assert.deepStrictEqual(log.messages.filter(message => message.level === 'error'), []);
+        });
+
+        it('shows a device that does not answer as not responding', async () => {
+            await launch({ offlineThreshold: 1 });
+            const accessory = api.registered[0];
+            const service = getService(accessory);
+
+            const isCommunicationFailure = (status: unknown) => status === api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+            device.packetLoss = 1;
+            await assert.rejects(service.getCharacteristic(platform.Characteristic.On).handleSetRequest(true), isCommunicationFailure);
+            assert.ok(!platform.isDeviceOnline(accessory));
+
+            await assert.rejects(service.getCharacteristic(platform.Characteristic.On).handleGetRequest(), isCommunicationFailure);
+
+            // any answer brings it back
+            device.packetLoss = 0;
+            device.setPilot({ state: false });
+            await waitFor(() => platform.isDeviceOnline(accessory));
+        });
+
+        it('polls the state the device did not push', async () => {
+            await launch({ pollingInterval: 0.1 });
+            const service = getService(api.registered[0]);
+
+            device.pilot.state = true;
+            device.pilot.dimming = 15;
+            platform.startPolling();
+
+            await waitFor(() => service.getCharacteristic(platform.Characteristic.Brightness).value === 15);
+            assert.strictEqual(service.getCharacteristic(platform.Characteristic.On).value, true);
+        });
+
+        it('keeps showing the colour of a light when polling it', async () => {
+            await launch();
+            const service = getService(api.registered[0]);
+            const saturation = service.getCharacteristic(platform.Characteristic.Saturation);
+            const temperature = service.getCharacteristic(platform.Characteristic.ColorTemperature).value;
+
+            await Promise.all([
+                service.getCharacteristic(platform.Characteristic.Hue).handleSetRequest(0),
+                saturation.handleSetRequest(100),
+            ]);
+            await waitFor(() => device.pilot.r === 255);
+            await platform.pollDevices();
+            await platform.discoverDevices();
+
+            assert.strictEqual(saturation.value, 100);
+            assert.strictEqual(service.getCharacteristic(platform.Characteristic.ColorTemperature).value, temperature);
+        });
+
+        it('shows a device that stops answering the polls as not responding', async () => {
+            await launch({ pollingInterval: 0.1, offlineThreshold: 2 });
+            const accessory = api.registered[0];
+
+            device.packetLoss = 1;
+            platform.startPolling();
+
+            await waitFor(() => !platform.isDeviceOnline(accessory), 3000);
+        });
+
+        it('restores the last state after a power cut', async () => {
+            await launch({ devices: [{ mac: DEVICE_MAC, powerRestore: 'restore' }] });
+            const brightness = getService(api.registered[0]).getCharacteristic(platform.Characteristic.Brightness);
+            device.setPilot({ state: true, dimming: 30, temp: 4000 });
+            await waitFor(() => brightness.value === 30);
+
+            device.powerCycle();
+
+            await waitFor(() => device.pilot.dimming === 30);
+            assert.strictEqual(device.pilot.temp, 4000);
+            await waitFor(() => brightness.value === 30);
+        });
+
+        it('turns a light off after a power cut', async () => {
+            await launch({ powerRestore: 'off' });
+            const on = getService(api.registered[0]).getCharacteristic(platform.Characteristic.On);
+            device.setPilot({ state: true });
+            await waitFor(() => on.value === true);
+
+            device.powerCycle();
+
+            await waitFor(() => device.pilot.state === false);
+            await waitFor(() => on.value === false);
+        });
+
+        it('keeps the state a light turns on with after a power cut by default', async () => {
+            await launch();
+            const brightness = getService(api.registered[0]).getCharacteristic(platform.Characteristic.Brightness);
+            device.setPilot({ state: false, dimming: 30 });
+            await waitFor(() => brightness.value === 30);
+
+            device.powerCycle();
+
+            await waitFor(() => brightness.value === 100);
+            assert.ok(!device.requests.some(request => request.method === 'setPilot'));
+        });
+
+        it('fades the brightness over the transition', async () => {
+            await launch({ transition: 0.6 });
+            const service = getService(api.registered[0]);
+            const brightness = service.getCharacteristic(platform.Characteristic.Brightness);
+            device.setPilot({ state: true, dimming: 100 });
+            await waitFor(() => service.getCharacteristic(platform.Characteristic.On).value === true);
+
+            await brightness.handleSetRequest(40);
+            await waitFor(() => device.pilot.dimming === 40);
+
+            const dimmings = device.requests.filter(request => request.method === 'setPilot').map(request => request.params.dimming);
+            assert.deepStrictEqual(dimmings, [80, 60, 40]);
+        });
+
+        it('sends at least the 10% brightness the devices accept', async () => {
+            await launch();
+            const service = getService(api.registered[0]);
+
+            await service.getCharacteristic(platform.Characteristic.Brightness).handleSetRequest(5);
+
+            const requests = device.requests.filter(request => request.method === 'setPilot');
+            assert.deepStrictEqual(requests.map(request => request.params.dimming), [10]);
+        });
+
+        it('stops a transition when another change comes in and sends its target along', async () => {
+            await launch({ transition: 2 });
+            const service = getService(api.registered[0]);
+            device.setPilot({ state: true, dimming: 100 });
+            await waitFor(() => service.getCharacteristic(platform.Characteristic.On).value === true);
+
+            await service.getCharacteristic(platform.Characteristic.Brightness).handleSetRequest(10);
+            await service.getCharacteristic(platform.Characteristic.On).handleSetRequest(false);
+            await new Promise(resolve => setTimeout(resolve, 500));
+
+            const requests = device.requests.filter(request => request.method === 'setPilot');
+            assert.deepStrictEqual(requests[requests.length - 1].params, { dimming: 10, state: false });
+            assert.strictEqual(requests.length, 2);
+        });
+
+        it('runs a routine from a switch', async () => {
+            await launch({
+                routines: [{ name: 'Sunrise', duration: 0.01, from: { dimming: 10, temp: 2200 }, to: { dimming: 100, temp: 6500 } }],
+            });
+            const routine = api.registered[0].getServiceById(platform.Service.Switch, 'routine-Sunrise')!;
+            const on = routine.getCharacteristic(platform.Characteristic.On);
+
+            await on.handleSetRequest(true);
+            assert.strictEqual(device.pilot.state, true);
+            assert.strictEqual(on.value, true);
+
+            await waitFor(() => device.pilot.dimming === 100 && device.pilot.temp === 6500);
+            await waitFor(() => on.value === false);
+            assert.strictEqual(device.requests.filter(request => request.method === 'setPilot').length, 4);
+        });
+
+        it('follows the device to its new ip', async () => {
+            await launch();
+            const accessory = api.registered[0];
+
+            await device.moveTo('127.0.0.3');
+            device.setPilot({ state: true });
+            await waitFor(() => accessory.context.device.ip === '127.0.0.3');
+
+            await getService(accessory).getCharacteristic(platform.Characteristic.Brightness).handleSetRequest(70);
+            await waitFor(() => device.pilot.dimming === 70);
+        });
+
+        it('shares a single search of the network between the discovery and the relocations', async () => {
+            await launch({ scanRanges: ['127.0.0.2/32'] });
+            const searches = () => device.requests.filter(request => request.method === 'registration' && !request.params.register).length;
+            let before = searches();
+            await platform.findDevices();
+            const single = searches() - before;
+
+            before = searches();
+            await Promise.all([platform.findDevices(), platform.relocateDevice(api.registered[0]), platform.findDevices()]);
+            assert.strictEqual(searches() - before, single);
+
+            // the device was just looked for
+            before = searches();
+            await platform.relocateDevice(api.registered[0]);
+            assert.strictEqual(searches(), before);
+        });
+
+        it('does not take the state of another device that got its ip', async () => {
+            const other = new MockWizDevice({ ip: '127.0.0.3', mac: 'a8bb50000002', pilot: { dimming: 20 } });
+            await other.start();
+            try {
+                await launch({ scanRanges: ['127.0.0.2/31'] });
+                const accessory = api.registered.find(candidate => candidate.context.device.mac === DEVICE_MAC)!;
+                const brightness = getService(accessory).getCharacteristic(platform.Characteristic.Brightness);
+
+                // DHCP swaps the ips of the two devices
+                await other.stop();
+                await device.moveTo('127.0.0.3');
+                await other.moveTo(DEVICE_IP);
+                await platform.pollDevices();
+
+                assert.strictEqual(brightness.value, 100);
+                await waitFor(() => accessory.context.device.ip === '127.0.0.3', 3000);
+            } finally {
+                await other.stop();
+            }
+        });
+    });
+
+    describe('group', () => {
+        let second: MockWizDevice;
+
+        async function launchGroup() {
+            await launch({
+                devices: [{ ip: '127.0.0.3' }],
+                groups: [{ name: 'Fixture', members: [DEVICE_MAC, 'A8:BB:50:00:00:02'] }],
+            });
+            await waitFor(() => second.registeredIp !== undefined);
+            return api.registered.find(accessory => accessory.displayName === 'Fixture')!;
+        }
+
+        beforeEach(async () => {
+            second = new MockWizDevice({ ip: '127.0.0.3', mac: 'a8bb50000002', moduleName: 'ESP14_SHTW1C_01', whiteRange: [2700, 6500] });
+            await second.start();
+        });
+
+        afterEach(async () => {
+            await second.stop();
+        });
+
+        it('is a light that both members support', async () => {
+            const accessory = await launchGroup();
+
+            assert.strictEqual(api.registered.length, 3);
+            assert.strictEqual(accessory.context.device.type, 'WHITE_LIGHT');
+            assert.deepStrictEqual(accessory.context.device.whiteRange, [2700, 6500]);
+        });
+
+        it('sends every change to all members', async () => {
+            const service = getService(await launchGroup());
+
+            await service.getCharacteristic(platform.Characteristic.On).handleSetRequest(true);
+            await service.getCharacteristic(platform.Characteristic.Brightness).handleSetRequest(30);
+            await waitFor(() => device.pilot.dimming === 30 && second.pilot.dimming === 30);
+
+            assert.strictEqual(device.pilot.state, true);
+            assert.strictEqual(second.pilot.state, true);
+        });
+
+        it('is on when any member is on and shows their average brightness', async () => {
+            const service = getService(await launchGroup());
+            const on = service.getCharacteristic(platform.Characteristic.On);
+            const brightness = service.getCharacteristic(platform.Characteristic.Brightness);
+
+            device.setPilot({ state: true, dimming: 60 });
+            second.setPilot({ state: true, dimming: 20 });
+            await waitFor(() => brightness.value === 40);
+
+            device.setPilot({ state: false });
+            await waitFor(() => brightness.value === 20);
+            assert.strictEqual(on.value, true);
+
+            second.setPilot({ state: false });
+            await waitFor(() => on.value === false);
+        });
+
+        it('ignores another device that answers at the ip of a member', async () => {
+            const accessory = await launchGroup();
+            await second.stop();
+            const stranger = new MockWizDevice({ ip: '127.0.0.3', mac: 'a8bb50000009', pilot: { state: true, dimming: 10 } });
+            await stranger.start();
+
+            try {
+                await platform.pollDevices();
+            } finally {
+                await stranger.stop();
+            }
+
+            assert.deepStrictEqual(accessory.context.group.members.map(member => member.mac), [DEVICE_MAC, 'a8bb50000002']);
+            assert.deepStrictEqual(log.messages.filter(message => message.level === 'error'), []);
+        });
+
+        it('keeps showing the pushes of a member after the group is removed', async () => {
+            const group = await launchGroup();
+            const light = api.registered.find(accessory => accessory.context.device.mac === DEVICE_MAC)!;
+            const brightness = getService(light).getCharacteristic(platform.Characteristic.Brightness);
+
+            const unregistered: string[] = [];
+            const unregister = platform.pushListener.unregister.bind(platform.pushListener);
+            platform.pushListener.unregister = (ip) => {
+                unregistered.push(ip);
+                unregister(ip);
+            };
+
+            platform.removeAccessory(group, 'it is removed by the test');
+            device.setPilot({ state: true, dimming: 60 });
+
+            await waitFor(() => brightness.value === 60);
+            // the lights keep renewing their registration
+            assert.deepStrictEqual(unregistered, []);
+        });
+
+        it('keeps showing the pushes of a member after its light is removed', async () => {
+            const brightness = getService(await launchGroup()).getCharacteristic(platform.Characteristic.Brightness);
+            const light = api.registered.find(accessory => accessory.context.device.mac === 'a8bb50000002')!;
+
+            platform.removeAccessory(light, 'it is removed by the test');
+            second.setPilot({ state: true, dimming: 20 });
+
+            await waitFor(() => brightness.value === 20);
+        });
+
+        it('reports the members that did not accept a change', async () => {
+            const accessory = await launchGroup();
+
+            second.packetLoss = 1;
+            await getService(accessory).getCharacteristic(platform.Characteristic.On).handleSetRequest(true);
+            await waitFor(() => log.messages.some(message => message.level === 'warn' && message.message.includes('a8bb50000002')));
+
+            assert.strictEqual(device.pilot.state, true);
+            assert.ok(platform.isDeviceOnline(accessory));
+        });
+    });
+});
@@ -5,37 +5,134 @@ import {
     PlatformAccessory,
     PlatformConfig,
     Service,
-    Characteristic
+    Characteristic,
 } from 'homebridge';
 
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
+import { HomebridgeWizAccessory } from './baseAccessory';
 import { HomebridgeWizLight } from './platformAccessory';
-import find, { IDevice } from 'local-devices'
-import udp from "dgram";
-
-interface IWizPilotResponse {
-    method: string;
-    env: string;
-    result: {
-        mac: string;
-        rssi: number;
-        src: string;
-        state: boolean;
-        sceneId?: number;
-        temp?: number;
-        dimming?: number;
-    };
+import { HomebridgeWizPlug } from './plugAccessory';
+import { HomebridgeWizGroup } from './groupAccessory';
+import { createCustomCharacteristics, IWizCustomCharacteristics } from './characteristics';
+import { discoverWizDevices, getWizDeviceCapabilities, IWizDiscoveredDevice, scanWizRanges } from './discovery';
+import { IWizPilot, IWizPilotResponse, IWizResponse, WizMethod, WizParams } from './protocol';
+import { getLocalAddress, WizPushListener } from './push';
+import { WizTransport } from './transport';
+import { IWizFadeValues } from './transition';
+
+export interface IWizDeviceCapabilities {
+    // WHITE_LIGHT is tunable white, RGB_LIGHT is RGBTW, SWITCH is a plug
+    type: 'WHITE_LIGHT' | 'RGB_LIGHT' | 'DIMMABLE_LIGHT' | 'SWITCH';
+    moduleName?: string;
+    fwVersion?: string;
+    // kelvin
+    whiteRange?: [number, number];
 }
-interface IWizDevice {
+export interface IWizDevice extends IWizDeviceCapabilities, IWizPilot {
     ip: string;
-    type: 'WHITE_LIGHT' | 'RGB_LIGHT' | 'SWITCH';
-    mac: string;
-    rssi: number;
-    src: string;
-    state: boolean;
-    sceneId?: number;
-    temp?: number;
-    dimming?: number;
+}
+
+// what a device shows after its power was cut: the last known state, off, or the state the device turns on with
+export type WizPowerRestorePolicy = 'restore' | 'off' | 'device';
+
+export interface IWizDeviceConfig {
+    mac?: string;
+    ip?: string;
+    name?: string;
+    // forces the device type instead of the detected one
+    type?: IWizDevice['type'];
+    exclude?: boolean;
+    // the room the accessory should be put in, HomeKit does not let plugins assign rooms so this is only logged
+    room?: string;
+    // names of the WiZ scenes to expose as switches, overrides the platform wide `scenes`
+    scenes?: string[];
+    // 10-200 (%)
+    sceneSpeed?: number;
+    // overrides the platform wide `powerRestore`
+    powerRestore?: WizPowerRestorePolicy;
+    // overrides the platform wide `transition`
+    transition?: number;
+}
+
+export interface IWizGroupConfig {
+    name: string;
+    // MACs of the devices that act as a single light
+    members: string[];
+    scenes?: string[];
+    // 10-200 (%)
+    sceneSpeed?: number;
+    transition?: number;
+}
+
+export interface IWizRoutineConfig {
+    name: string;
+    // minutes
+    duration: number;
+    // the state the light starts with, values that aren't set start at the current state of the light
+    from?: IWizFadeValues;
+    // the state the light ends with, only the values that are set change
+    to: IWizFadeValues;
+    // MACs of the lights, or names of the groups, that get a switch for the routine, all lights when not set
+    devices?: string[];
+}
+
+export interface IWizHelperConfig extends PlatformConfig {
+    broadcastAddress?: string;
+    // seconds
+    discoveryTimeout?: number;
+    // minutes between two discoveries after the one at startup, 0 only discovers at startup
+    discoveryInterval?: number;
+    // CIDR ranges scanned with unicast getPilot, for the devices the broadcast doesn't reach
+    scanRanges?: string[];
+    // requests per second of the range scan
+    scanRate?: number;
+    // name or IPv4 address of the network interface the sockets bind to, all interfaces when not set
+    networkInterface?: string;
+    devices?: IWizDeviceConfig[];
+    groups?: IWizGroupConfig[];
+    scenes?: string[];
+    // ms
+    requestTimeout?: number;
+    requestRetries?: number;
+    // failed probes in a row before a device is shown as not responding
+    offlineThreshold?: number;
+    // hours, 0 keeps offline accessories forever
+    removeOfflineAfter?: number;
+    // seconds between two getPilot polls of every device, 0 only relies on the pushes
+    pollingInterval?: number;
+    powerRestore?: WizPowerRestorePolicy;
+    adaptiveLighting?: boolean;
+    // adds the Wi-Fi signal strength to the accessory information
+    diagnostics?: boolean;
+    // dBm, a weaker signal is logged as a warning
+    rssiWarning?: number;
+    // seconds a brightness or colour temperature change fades, 0 changes it right away
+    transition?: number;
+    routines?: IWizRoutineConfig[];
+}
+
+// devices polled at the same time, and the delay (ms) before the next ones, so a large setup doesn't flood the network
+const POLL_BATCH_SIZE = 5;
+const POLL_BATCH_DELAY = 250;
+
+// devices probed at the same time during the discovery
+const PROBE_CONCURRENCY = 5;
+
+/**
+ * Brings a MAC address in the format the WiZ devices report it in: lowercase without separators.
+ */
+export function normalizeMac(mac: string): string {
+    return mac.toLowerCase().replace(/[^0-9a-f]/g, '');
+}
+
+/**
+ * Formats a MAC address as the WiZ app shows it, e.g. A8:BB:50:00:00:01. Anything that isn't a MAC is returned as is.
+ */
+export function formatMac(mac: string): string {
+    if (!/^[0-9a-f]{12}$/i.test(mac)) {
+        return mac;
+    }
+    return mac.toUpperCase().match(/.{2}/g)!.join(':');
 }
 
 /**
@@ -46,10 +143,44 @@ interface IWizDevice {
 export class HomebridgeWizHelper implements DynamicPlatformPlugin {
     public readonly Service: typeof Service = this.api.hap.Service;
     public readonly Characteristic: typeof Characteristic = this.api.hap.Characteristic;
+    public readonly CustomCharacteristic: IWizCustomCharacteristics = createCustomCharacteristics(this.api);
 
     // this is used to track restored cached accessories
     public readonly accessories: PlatformAccessory[] = [];
 
+    // the user config, typed with the options this plugin supports
+    public readonly settings: IWizHelperConfig = this.config;
+
+    // the address the sockets bind to, only set when `networkInterface` is configured
+    public readonly bindAddress?: string = this.resolveNetworkInterface();
+
+    // receives the state changes the devices push, shared by all accessories
+    public readonly pushListener: WizPushListener = new WizPushListener(
+        this.log,
+        getLocalAddress(this.bindAddress),
+        this.bindAddress,
+    );
+
+    // sends the requests to the devices, shared by all accessories
+    public readonly transport: WizTransport = new WizTransport(this.log, {
+        timeout: this.settings.requestTimeout ?? 1000,
+        retries: this.settings.requestRetries ?? 2,
+        localAddress: this.bindAddress,
+    });
+
+    // the rediscoveries that are running or ran recently, by MAC, `time` is when the search finished
+    private readonly relocations: { [mac: string]: { promise: Promise<boolean>; time?: number } } = {};
+
+    // the search of the network that is running, shared by the discovery and every relocation
+    private finding?: Promise<IWizDiscoveredDevice[]>;
+
+    // the handler of every accessory, by UUID
+    private readonly handlers: { [uuid: string]: HomebridgeWizAccessory } = {};
+
+    private pollTimer?: NodeJS.Timeout;
+
+    private discoveryTimer?: NodeJS.Timeout;
+
     constructor(
         public readonly log: Logger,
         public readonly config: PlatformConfig,
@@ -61,10 +192,22 @@ export class HomebridgeWizHelper implements DynamicPlatformPlugin {
         // Dynamic Platform plugins should only register new accessories after this event was fired,
         // in order to ensure they weren't added to homebridge already. This event can also be used
         // to start discovery of new accessories.
-        this.api.on('didFinishLaunching', () => {
+        this.api.on('didFinishLaunching', async () => {
             log.debug('Executed didFinishLaunching callback');
+            await this.pushListener.start();
+            // the cached accessories work right away, the discovery updates them as the devices answer
+            this.restoreCachedAccessories();
+            this.startPolling();
             // run the method to discover / register your devices as accessories
-            this.discoverDevices();
+            this.discoverDevices().catch((error: Error) => {
+                this.log.error('Discovery failed:', error.message);
+            }).then(() => this.startDiscovery());
+        });
+        this.api.on('shutdown', () => {
+            this.stopPolling();
+            this.stopDiscovery();
+            this.pushListener.stop();
+            this.transport.close();
         });
     }
 
@@ -80,235 +223,618 @@ export class HomebridgeWizHelper implements DynamicPlatformPlugin {
     }
 
     /**
-     * This is an example method showing how to register discovered accessories.
+     * Creates the handler of every cached accessory from the device stored in its context, so the accessories
+     * respond before the discovery finished. Excluded devices and groups that are no longer configured are removed.
+     */
+    restoreCachedAccessories() {
+        for (const accessory of [...this.accessories]) {
+            const device: IWizDevice|undefined = accessory.context.device;
+            if (!device) {
+                // cached before the device was stored, the discovery sets it up
+                continue;
+            }
+
+            if (accessory.context.group) {
+                const groupConfig = (this.settings.groups ?? []).find(candidate => candidate.name === accessory.displayName);
+                if (!groupConfig) {
+                    this.removeAccessory(accessory, 'its group is no longer configured');
+                    continue;
+                }
+                this.applyDeviceConfig(accessory, groupConfig);
+            } else {
+                const deviceConfig = this.getDeviceConfig(device);
+                if (deviceConfig.exclude) {
+                    this.removeAccessory(accessory, 'it is excluded');
+                    continue;
+                }
+                if (deviceConfig.type) {
+                    device.type = deviceConfig.type;
+                }
+                this.applyDeviceConfig(accessory, deviceConfig);
+            }
+
+            this.log.info('Restoring existing accessory from cache:', accessory.displayName);
+            this.createHandler(accessory);
+        }
+    }
+
+    /**
+     * Discovers the WiZ devices on the network by broadcasting on the WiZ port and registers them as accessories.
+     * The devices are probed PROBE_CONCURRENCY at a time, each one is added or updated as soon as it answered.
      * Accessories must only be registered once, previously created accessories
      * must not be registered again to prevent "duplicate UUID" errors.
      */
     async discoverDevices() {
+        const discovered = await this.findDevices();
+        this.log.debug('All devices found: ', discovered.map(device => device.ip));
 
-        // find().then(async (devices: IDevice[]) => {
-        //     this.log.debug('All devices found: ', devices.map(device => device.ip));
-        //
-        // });
-        const lights: IWizDevice[] = [];
+        // Configured devices with an ip are probed directly, the broadcast may not reach them
+        const manualIps = (this.settings.devices ?? [])
+            .filter(deviceConfig => deviceConfig.ip && !deviceConfig.exclude)
+            .map(deviceConfig => deviceConfig.ip!)
+            .filter(ip => !discovered.some(device => device.ip === ip));
 
-        // Use this since the router's ARP doesnt retrieve everything
-        const altDevices: IDevice[] = [
-            {
-                ip: '192.168.1.144',
-                mac: 'A8BB506E798A'.toLowerCase(),
-                name: 'wiz_tmp1',
-            },
-            {
-                ip: '192.168.1.73',
-                mac: 'A8BB506AEE9A'.toLowerCase(),
-                name: 'wiz_tmp2',
-            },
-            {
-                ip: '192.168.1.64',
-                mac: 'A8BB506B03D8'.toLowerCase(),
-                name: 'wiz_tmp3',
-            },
-            {
-                ip: '192.168.1.18',
-                mac: 'A8BB50CC54EC'.toLowerCase(),
-                name: 'wiz_tmp4',
-            },
-            {
-                ip: '192.168.1.96',
-                mac: 'A8BB50CC6E22'.toLowerCase(),
-                name: 'wiz_tmp5',
-            },
-            {
-                ip: '192.168.1.92',
-                mac: 'a8bb505415eb',
-                name: 'wiz_tmp_6',
-            },
-            {
-                ip: '192.168.1.39',
-                mac: 'a8bb50522008',
-                name: 'wiz_tmp_7',
-            },
-            {
-                ip: '192.168.1.3',
-                mac: 'a8bb50521d9d',
-                name: 'wiz_tmp_8',
-            },
-            {
-                ip: '192.168.1.194',
-                mac: 'a8bb50521e15',
-                name: 'wiz_tmp_9',
-            },
-            {
-                ip: '192.168.1.17',
-                mac: 'a8bb5055d8fe',
-                name: 'wiz_tmp_10',
-            },
-            {
-                ip: '192.168.1.87',
-                mac: 'a8bb5055dfe0',
-                name: 'wiz_tmp_11',
-            },
-            {
-                ip: '192.168.1.47',
-                mac: 'a8bb5055e2c6',
-                name: 'wiz_tmp_12',
-            },
-            {
-                ip: '192.168.1.189',
-                mac: 'A8BB507D76E6'.toLowerCase(),
-                name: 'wiz_tmp_13',
-            },
+        const probes = [
+            ...discovered.map(device => ({ ip: device.ip, pilot: device.pilot })),
+            ...manualIps.map(ip => ({ ip, pilot: undefined })),
         ];
-
-        const promises: Promise<IWizDevice|null>[] = [];
-        for (const device of altDevices) {
-            promises.push(this.getWizDevice(device.ip));
-            // const wizDevice = await this.getWizDevice(device.ip);
-            // console.log({ wizDevice });
-            // if (wizDevice) {
-            //     lights.push(wizDevice as IWizDevice);
-            // }
-        }
-        const wizDevices = await Promise.all(promises);
-        wizDevices.forEach((wizDevice, index) => {
-            if (wizDevice) {
-                lights.push(wizDevice);
-            } else {
-                const deviceInfo = altDevices[index];
-                console.error(`Cannot find wizDevice ${deviceInfo.ip}`);
+        const lights: IWizDevice[] = [];
+        await mapConcurrently(probes, PROBE_CONCURRENCY, async ({ ip, pilot }) => {
+            // Devices that only answered the registration broadcast still need their current state
+            const device = pilot ? this.makeWizDevice(ip, pilot) : await this.getWizDevice(ip);
+            if (!device) {
+                this.log.warn(`Cannot retrieve state of WiZ device ${ip}`);
+                return;
             }
+            await this.detectCapabilities(device);
+            lights.push(device);
+            this.addDiscoveredDevice(device);
         });
         this.log.debug('Discovered these lights: ', lights);
 
-        // loop over the discovered devices and register each one if it has not already been registered
-        for (const device of lights) {
+        this.configureGroups(lights);
 
-            // generate a unique id for the accessory this should be generated from
-            // something globally unique, but constant, for example, the device serial
-            // number or MAC address
-            const uuid = this.api.hap.uuid.generate(device.mac);
+        // cached accessories whose device didn't answer count as a failed probe, groups track their members themselves
+        for (const accessory of [...this.accessories]) {
+            if (!accessory.context.group && !lights.some(device => device.mac === accessory.context.device?.mac)) {
+                this.log.warn(`${accessory.displayName} was not found during discovery`);
+                this.reportDeviceFailure(accessory);
+            }
+        }
+    }
 
-            // see if an accessory with the same uuid has already been registered and restored from
-            // the cached devices we stored in the `configureAccessory` method above
-            const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    /**
+     * Fills in the type, model and white range of a discovered device
+     */
+    async detectCapabilities(device: IWizDevice) {
+        const capabilities = await this.getWizDeviceCapabilities(device.ip);
+        if (capabilities) {
+            Object.assign(device, capabilities);
+        } else {
+            // keep what was detected before, the device may not support getSystemConfig right now
+            const cached = this.accessories.find(accessory => accessory.context.device?.mac === device.mac);
+            if (cached) {
+                const { type, moduleName, fwVersion, whiteRange } = cached.context.device as IWizDevice;
+                Object.assign(device, { type, moduleName, fwVersion, whiteRange });
+            }
+            this.log.warn(`Cannot detect the type of WiZ device ${device.ip}, using ${device.type}`);
+        }
+    }
+
+    /**
+     * Registers the accessory of a device that answered the discovery, or updates it when it was restored from the cache
+     */
+    addDiscoveredDevice(device: IWizDevice) {
+        const deviceConfig = this.getDeviceConfig(device);
+        if (deviceConfig.type) {
+            device.type = deviceConfig.type;
+        }
 
+        // generate a unique id for the accessory this should be generated from
+        // something globally unique, but constant, for example, the device serial
+        // number or MAC address
+        const uuid = this.api.hap.uuid.generate(device.mac);
+
+        // see if an accessory with the same uuid has already been registered and restored from
+        // the cached devices we stored in the `configureAccessory` method above
+        const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+
+        if (deviceConfig.exclude) {
             if (existingAccessory) {
-                // the accessory already exists
-                if (device) {
-                    this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
-
-                    // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-                    // existingAccessory.context.device = device;
-                    // this.api.updatePlatformAccessories([existingAccessory]);
-
-                    // create the accessory handler for the restored accessory
-                    // this is imported from `platformAccessory.ts`
-                    new HomebridgeWizLight(this, existingAccessory);
-
-                    // update accessory cache with any changes to the accessory details and information
-                    this.api.updatePlatformAccessories([existingAccessory]);
-                } else if (!device) {
-                    // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, eg.:
-                    // remove platform accessories when no longer present
-                    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-                    this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
-                }
+                this.removeAccessory(existingAccessory, 'it is excluded');
+            } else {
+                this.log.debug(`Skipping excluded device ${device.mac} (${device.ip})`);
+            }
+            return;
+        }
+
+        if (existingAccessory) {
+            // the accessory already exists, merge the freshly discovered device (its ip may have changed) into the cached one
+            const cached: IWizDevice|undefined = existingAccessory.context.device;
+            const handler = this.handlers[uuid];
+            if (cached && handler) {
+                this.updateDeviceIp(existingAccessory, device.ip);
+            } else if (cached?.ip && cached.ip !== device.ip) {
+                this.log.info(`${existingAccessory.displayName} (${device.mac}) moved from ${cached.ip} to ${device.ip}`);
+            }
+            existingAccessory.context.device = device;
+            this.applyDeviceConfig(existingAccessory, deviceConfig);
+            this.reportDeviceSeen(existingAccessory);
+
+            // the services depend on the type and white range, a device that turns out to be different needs a new handler
+            if (handler && cached?.type === device.type && String(cached.whiteRange) === String(device.whiteRange)) {
+                handler.refresh(device);
             } else {
-                // the accessory does not yet exist, so we need to create it
-                const displayName = `WiZ ${device.type} ${device.mac}`;
-                this.log.info('Adding new accessory:', displayName);
+                this.createHandler(existingAccessory);
+            }
+
+            // update accessory cache with any changes to the accessory details and information
+            this.api.updatePlatformAccessories([existingAccessory]);
+        } else {
+            // the accessory does not yet exist, so we need to create it
+            const displayName = deviceConfig.name || `WiZ ${device.type} ${device.mac}`;
+            this.log.info('Adding new accessory:', displayName);
+            if (deviceConfig.room) {
+                this.log.info(`Assign ${displayName} to the room "${deviceConfig.room}" in the Home app`);
+            }
+
+            // create a new accessory
+            const accessory = new this.api.platformAccessory(displayName, uuid);
+
+            // store a copy of the device object in the `accessory.context`
+            // the `context` property can be used to store any data about the accessory you may need
+            accessory.context.device = device;
+            this.applyDeviceConfig(accessory, deviceConfig);
+
+            // create the accessory handler for the newly create accessory
+            this.createHandler(accessory);
+
+            // link the accessory to your platform
+            this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+            this.accessories.push(accessory);
+        }
+    }
+
+    /**
+     * Registers an accessory for every configured group, or updates it when it was restored from the cache.
+     * Members that weren't discovered this time are kept at the ip they had before.
+     */
+    configureGroups(lights: IWizDevice[]) {
+        for (const groupConfig of this.settings.groups ?? []) {
+            const uuid = this.api.hap.uuid.generate(`group:${groupConfig.name}`);
+            const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
 
-                // create a new accessory
-                const accessory = new this.api.platformAccessory(displayName, uuid);
+            const previousMembers: IWizDevice[] = existingAccessory?.context.group?.members ?? [];
+            const members: IWizDevice[] = [];
+            for (const mac of (groupConfig.members ?? []).map(normalizeMac)) {
+                const device = lights.find(light => light.mac === mac);
+                const previous = previousMembers.find(member => member.mac === mac);
+                if (device?.type === 'SWITCH') {
+                    this.log.warn(`${device.mac} of the group "${groupConfig.name}" is a plug, only lights can be grouped`);
+                } else if (device) {
+                    members.push({ ...device });
+                } else if (previous) {
+                    this.log.warn(`${mac} of the group "${groupConfig.name}" was not found during discovery`);
+                    members.push(previous);
+                } else {
+                    this.log.warn(`${mac} of the group "${groupConfig.name}" was not found during discovery, leaving it out`);
+                }
+            }
+            if (!members.length) {
+                this.log.warn(`None of the lights of the group "${groupConfig.name}" were found`);
+                continue;
+            }
 
-                // store a copy of the device object in the `accessory.context`
-                // the `context` property can be used to store any data about the accessory you may need
-                accessory.context.device = device;
+            const device = createGroupDevice(groupConfig.name, members);
+            const accessory = existingAccessory ?? new this.api.platformAccessory(groupConfig.name, uuid);
+            const cached: IWizDevice|undefined = accessory.context.device;
+            const handler = this.handlers[uuid];
+            accessory.context.device = device;
+            this.applyDeviceConfig(accessory, groupConfig);
 
-                // create the accessory handler for the newly create accessory
-                // this is imported from `platformAccessory.ts`
-                new HomebridgeWizLight(this, accessory);
+            // a group restored with the same members keeps its handler, the members just report their state
+            const sameMembers = String(previousMembers.map(member => member.mac)) === String(members.map(member => member.mac));
+            if (handler instanceof HomebridgeWizGroup && sameMembers
+                && cached?.type === device.type && String(cached.whiteRange) === String(device.whiteRange)) {
+                members
+                    .filter(member => lights.some(light => light.mac === member.mac))
+                    .forEach(member => handler.updateMember(member.mac, member, member.ip));
+            } else {
+                accessory.context.group = { members };
+                this.createHandler(accessory);
+            }
 
-                // link the accessory to your platform
+            if (existingAccessory) {
+                this.log.info('Restoring existing group from cache:', accessory.displayName);
+                this.api.updatePlatformAccessories([accessory]);
+            } else {
+                this.log.info('Adding new group:', accessory.displayName);
                 this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+                this.accessories.push(accessory);
+            }
+        }
+
+        // groups that were removed from the config
+        for (const accessory of [...this.accessories]) {
+            if (accessory.context.group && !(this.settings.groups ?? []).some(groupConfig => accessory.displayName === groupConfig.name)) {
+                this.removeAccessory(accessory, 'its group is no longer configured');
             }
         }
     }
 
-    async getWizDevice(ip: string): Promise<IWizDevice|null> {
-        return new Promise((resolve) => {
-            const client = udp.createSocket('udp4');
-
-            const bufferData = Buffer.from(JSON.stringify({
-                method: 'getPilot',
-                params: {},
-            }));
-            client.on('message', (message) => {
-                try {
-                    const deviceInfo = JSON.parse(message.toString()) as IWizPilotResponse;
-                    if (deviceInfo.method === 'getPilot') {
-                        resolve(this.makeWizDevice(ip, deviceInfo));
-                    } else {
-                        resolve(null);
-                    }
-                } catch (e) {
-                    resolve(null);
+    /**
+     * Creates the handler that fits the detected type of the device, plugs get an Outlet instead of a Lightbulb
+     */
+    createHandler(accessory: PlatformAccessory): HomebridgeWizAccessory {
+        const device: IWizDevice = accessory.context.device;
+        this.handlers[accessory.UUID]?.dispose();
+
+        let handler: HomebridgeWizAccessory;
+        if (accessory.context.group) {
+            handler = new HomebridgeWizGroup(this, accessory);
+        } else if (device.type === 'SWITCH') {
+            handler = new HomebridgeWizPlug(this, accessory);
+        } else {
+            handler = new HomebridgeWizLight(this, accessory);
+        }
+        this.handlers[accessory.UUID] = handler;
+        return handler;
+    }
+
+    /**
+     * Runs the discovery again every `discoveryInterval` minutes, for the devices that joined the network since
+     * and for those whose accessory was removed by `removeOfflineAfter` and that came back.
+     */
+    startDiscovery() {
+        const interval = (this.settings.discoveryInterval ?? 60) * 60000;
+        if (interval <= 0) {
+            return;
+        }
+
+        // like the polls, the next discovery is planned once the previous one is done
+        const schedule = () => {
+            this.discoveryTimer = setTimeout(async () => {
+                await this.discoverDevices().catch((error: Error) => {
+                    this.log.error('Discovery failed:', error.message);
+                });
+                if (this.discoveryTimer) {
+                    schedule();
                 }
-                setTimeout(() => client.close(), 0);
-            });
+            }, interval);
+        };
+        schedule();
+    }
+
+    stopDiscovery() {
+        if (this.discoveryTimer) {
+            clearTimeout(this.discoveryTimer);
+            this.discoveryTimer = undefined;
+        }
+    }
 
-            client.send(bufferData, 38899, ip, (error) => {
-                if (error) {
-                    client.close();
-                    resolve(null);
+    /**
+     * Polls every device with getPilot every `pollingInterval` seconds. The pushes of the devices are not guaranteed
+     * to arrive (they are UDP), and a device that lost its power doesn't push that it is gone.
+     */
+    startPolling() {
+        const interval = (this.settings.pollingInterval ?? 30) * 1000;
+        if (interval <= 0) {
+            return;
+        }
+        this.log.debug(`Polling the devices every ${interval}ms`);
+
+        // the next poll is planned once the previous one is done, so slow devices can't make them overlap
+        const schedule = () => {
+            this.pollTimer = setTimeout(async () => {
+                // a failed poll must not end the polling, nor bring Homebridge down with an unhandled rejection
+                await this.pollDevices().catch((error: Error) => {
+                    this.log.error('Polling the devices failed:', error.message);
+                });
+                if (this.pollTimer) {
+                    schedule();
                 }
+            }, interval);
+        };
+        schedule();
+    }
+
+    stopPolling() {
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Polls the devices in batches of POLL_BATCH_SIZE, with POLL_BATCH_DELAY between the batches.
+     * A handler whose poll fails is logged, the others are still polled.
+     */
+    async pollDevices() {
+        const handlers = Object.entries(this.handlers);
+        for (let start = 0; start < handlers.length; start += POLL_BATCH_SIZE) {
+            if (start > 0) {
+                await new Promise(resolve => setTimeout(resolve, POLL_BATCH_DELAY));
+            }
+            const batch = handlers.slice(start, start + POLL_BATCH_SIZE);
+            await Promise.all(batch.map(([uuid, handler]) => handler.poll().catch((error: Error) => {
+                const accessory = this.accessories.find(candidate => candidate.UUID === uuid);
+                this.log.error(`Cannot poll ${accessory?.displayName ?? uuid}:`, error.message);
+            })));
+        }
+    }
+
+    /**
+     * Whether the device answered recently enough, HomeKit shows it as not responding otherwise
+     */
+    isDeviceOnline(accessory: PlatformAccessory): boolean {
+        return (accessory.context.failedProbes ?? 0) < (this.settings.offlineThreshold ?? 3);
+    }
+
+    /**
+     * Called whenever the device answers or pushes an update, returns whether it was offline before
+     */
+    reportDeviceSeen(accessory: PlatformAccessory): boolean {
+        const wasOffline = !this.isDeviceOnline(accessory);
+        if (wasOffline) {
+            this.log.info(`${accessory.displayName} is back online`);
+        }
+        accessory.context.failedProbes = 0;
+        accessory.context.lastSeen = Date.now();
+        return wasOffline;
+    }
+
+    /**
+     * Called whenever the device doesn't answer. After `offlineThreshold` failures in a row the device is marked as
+     * not responding, once it hasn't been seen for `removeOfflineAfter` hours its accessory is removed.
+     * A removed device that comes back is added again by the next discovery, see `startDiscovery`.
+     */
+    reportDeviceFailure(accessory: PlatformAccessory) {
+        const wasOnline = this.isDeviceOnline(accessory);
+        accessory.context.failedProbes = (accessory.context.failedProbes ?? 0) + 1;
+        // accessories cached before this was tracked start their grace period now
+        accessory.context.lastSeen = accessory.context.lastSeen ?? Date.now();
+
+        if (wasOnline && !this.isDeviceOnline(accessory)) {
+            this.log.warn(`${accessory.displayName} did not answer ${accessory.context.failedProbes} times, marking it as not responding`);
+        }
+
+        const removeAfter = (this.settings.removeOfflineAfter ?? 0) * 3600000;
+        if (removeAfter > 0 && Date.now() - accessory.context.lastSeen > removeAfter) {
+            this.removeAccessory(accessory, `it has been offline for more than ${this.settings.removeOfflineAfter} hours`);
+        } else {
+            this.api.updatePlatformAccessories([accessory]);
+        }
+    }
+
+    /**
+     * Unregisters the accessory and stops its handler. A group and its members listen to the same devices,
+     * a device keeps pushing to this host as long as another accessory listens to it.
+     */
+    removeAccessory(accessory: PlatformAccessory, reason: string) {
+        this.log.info(`Removing accessory ${accessory.displayName} from cache, ${reason}`);
+        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.splice(this.accessories.indexOf(accessory), 1);
+        this.handlers[accessory.UUID]?.dispose();
+        delete this.handlers[accessory.UUID];
+
+        const devices: IWizDevice[] = accessory.context.group?.members
+            ?? (accessory.context.device ? [accessory.context.device] : []);
+        for (const device of devices) {
+            if (!this.pushListener.listenerCount(device.mac)) {
+                this.pushListener.unregister(device.ip);
+            }
+        }
+    }
+
+    /**
+     * Finds the devices with the broadcast and with the scan of the `scanRanges` at the same time.
+     * A device found by both is returned once. A scan of a large range takes minutes, so a search that is still
+     * running is shared instead of starting another one.
+     */
+    findDevices(): Promise<IWizDiscoveredDevice[]> {
+        if (!this.finding) {
+            this.finding = this.searchNetwork().finally(() => {
+                this.finding = undefined;
             });
+        }
+        return this.finding;
+    }
 
-            setTimeout(() => {
-                // No result after 5 seconds, continue plz
-                try {
-                    client.close();
-                } catch (e) {
-                    //
-                }
-                resolve(null);
-            }, 5000);
+    private async searchNetwork(): Promise<IWizDiscoveredDevice[]> {
+        const [broadcast, scanned] = await Promise.all([this.broadcastDiscovery(), this.scanRanges()]);
+        const found: { [ip: string]: IWizDiscoveredDevice } = {};
+        for (const device of [...broadcast, ...scanned]) {
+            found[device.ip] = { ...device, pilot: device.pilot ?? found[device.ip]?.pilot };
+        }
+        return Object.values(found);
+    }
+
+    broadcastDiscovery(): Promise<IWizDiscoveredDevice[]> {
+        const broadcastAddress = this.settings.broadcastAddress || '255.255.255.255';
+        const timeout = (this.settings.discoveryTimeout ?? 3) * 1000;
+
+        this.log.debug(`Discovering devices on ${broadcastAddress} for ${timeout}ms`);
+        return discoverWizDevices({ broadcastAddress, timeout, localAddress: this.bindAddress });
+    }
+
+    /**
+     * Scans the configured `scanRanges`, resolves with no devices when there are none or a range is invalid
+     */
+    async scanRanges(): Promise<IWizDiscoveredDevice[]> {
+        const ranges = this.settings.scanRanges ?? [];
+        if (!ranges.length) {
+            return [];
+        }
+        this.log.debug(`Scanning ${ranges.join(', ')} for devices`);
+        try {
+            return await scanWizRanges({
+                ranges,
+                timeout: (this.settings.discoveryTimeout ?? 3) * 1000,
+                rate: this.settings.scanRate ?? 50,
+                localAddress: this.bindAddress,
+            });
+        } catch (error) {
+            this.log.error('Cannot scan for devices:', error.message);
+            return [];
+        }
+    }
+
+    /**
+     * Finds the address of the configured `networkInterface`, falls back to all interfaces when there is no such interface
+     */
+    private resolveNetworkInterface(): string|undefined {
+        const networkInterface = this.settings.networkInterface;
+        if (!networkInterface) {
+            return undefined;
+        }
+        const address = getLocalAddress(networkInterface);
+        if (!address) {
+            this.log.error(`Cannot find the network interface ${networkInterface}, using all interfaces`);
+        }
+        return address?.address;
+    }
+
+    /**
+     * Looks for a device that stopped answering by its MAC, in case DHCP gave it a new ip.
+     * Runs at most once a minute per device, counted from the end of the previous search.
+     * Resolves with whether the device was found at a new ip.
+     */
+    relocateDevice(accessory: PlatformAccessory): Promise<boolean> {
+        const device: IWizDevice = accessory.context.device;
+        const previous = this.relocations[device.mac];
+        if (previous && (previous.time === undefined || Date.now() - previous.time < 60000)) {
+            return previous.promise;
+        }
+
+        this.log.debug(`${accessory.displayName} is not reachable at ${device.ip}, looking for it by MAC`);
+        const promise = this.findDevices().then((discovered) => {
+            const found = discovered.find(candidate => candidate.mac === device.mac);
+            if (!found) {
+                this.log.warn(`${accessory.displayName} (${device.mac}) cannot be found on the network`);
+                return false;
+            }
+            return this.updateDeviceIp(accessory, found.ip);
+        }, (error: Error) => {
+            this.log.error(`Cannot look for ${accessory.displayName}:`, error.message);
+            return false;
+        });
+        const relocation: { promise: Promise<boolean>; time?: number } = { promise };
+        promise.then(() => {
+            relocation.time = Date.now();
         });
+        this.relocations[device.mac] = relocation;
+        return promise;
+    }
+
+    /**
+     * Stores a new ip of the device in the cache, returns whether the ip changed
+     */
+    updateDeviceIp(accessory: PlatformAccessory, ip: string): boolean {
+        const device: IWizDevice = accessory.context.device;
+        if (device.ip === ip) {
+            return false;
+        }
+        this.log.info(`${accessory.displayName} (${device.mac}) moved from ${device.ip} to ${ip}`);
+        this.pushListener.unregister(device.ip);
+        device.ip = ip;
+        this.pushListener.register(ip);
+        this.api.updatePlatformAccessories([accessory]);
+        return true;
+    }
+
+    /**
+     * Stores the parts of the device config the accessory handlers need in the `accessory.context`
+     */
+    applyDeviceConfig(accessory: PlatformAccessory, deviceConfig: IWizDeviceConfig) {
+        accessory.context.name = deviceConfig.name;
+        accessory.context.room = deviceConfig.room;
+        accessory.context.scenes = deviceConfig.scenes ?? this.settings.scenes ?? [];
+        accessory.context.sceneSpeed = deviceConfig.sceneSpeed ?? 100;
+        accessory.context.powerRestore = deviceConfig.powerRestore ?? this.settings.powerRestore ?? 'device';
+        accessory.context.transition = deviceConfig.transition ?? this.settings.transition ?? 0;
+
+        const mac: string = accessory.context.device.mac;
+        accessory.context.routines = (this.settings.routines ?? []).filter(routine => !routine.devices
+            || routine.devices.some(entry => normalizeMac(entry) === mac || entry === accessory.displayName));
+    }
+
+    /**
+     * Finds the entry of the `devices` config that belongs to the device, matched by MAC first and IP second.
+     * Returns an empty config when the device is not configured.
+     */
+    getDeviceConfig(device: IWizDevice): IWizDeviceConfig {
+        const devices = this.settings.devices ?? [];
+        return devices.find(deviceConfig => deviceConfig.mac && normalizeMac(deviceConfig.mac) === device.mac)
+            ?? devices.find(deviceConfig => !deviceConfig.mac && deviceConfig.ip === device.ip)
+            ?? {};
     }
 
+    async getWizDevice(ip: string): Promise<IWizDevice|null> {
+        const deviceInfo = await this.requestDevice(ip, 'getPilot');
+        return deviceInfo ? this.makeWizDevice(ip, deviceInfo) : null;
+    }
+
+    /**
+     * Detects what the device is capable of, see `getWizDeviceCapabilities`
+     */
+    getWizDeviceCapabilities(ip: string): Promise<IWizDeviceCapabilities|null> {
+        return getWizDeviceCapabilities(this.transport, ip);
+    }
+
+    /**
+     * Sends a single request to the device, resolves with null when it doesn't answer or answers with an error
+     */
+    requestDevice<M extends WizMethod>(ip: string, method: M, params: WizParams<M> = {}): Promise<IWizResponse<M>|null> {
+        return this.transport.request(ip, method, params, { quiet: true }).catch(() => null);
+    }
+
+    /**
+     * Keeps the params the device reported as they are, a light in colour mode or running a scene reports no temp
+     * and filling one in would make it look white
+     */
     makeWizDevice(ip: string, info: IWizPilotResponse): IWizDevice {
-        // Detecting wont work, if the light is off, the system doesnt get dimming or temp
-        // If a wiz-scene is activated, it thinks it's an rgb, for lack of dimming
-        // const type = (() => {
-        //     if (!info.result.dimming) {
-        //         return 'SWITCH';
-        //     }
-        //     if (info.result.temp) {
-        //         return 'WHITE_LIGHT';
-        //     }
-        //     return 'RGB_LIGHT';
-        // })();
-        const type = 'WHITE_LIGHT';
-        const device: IWizDevice = {
-            ip,
-            type,
-            mac: info.result.mac,
-            state: info.result.state,
-            rssi: info.result.rssi,
-            src: info.result.src,
-            sceneId: info.result.sceneId,
-            dimming: info.result.dimming ?? 0,
-            temp: info.result.temp ?? 2700,
-        };
-        // if (type !== 'SWITCH') {
-        //     if (type === 'WHITE_LIGHT') {
-        //         device.dimming = info.result.dimming;
-        //         device.temp = info.result.temp;
-        //     } else {
-        //         // Put RGB stuff here
-        //     }
-        // }
-        return device;
+        // The type can't be detected from `getPilot`, it is filled in by `getWizDeviceCapabilities`
+        return { ...info.result, ip, type: 'WHITE_LIGHT' };
     }
 }
+
+/**
+ * Creates the device a group is shown as: a light that can do what all of its members can,
+ * within the white range every member supports
+ */
+export function createGroupDevice(name: string, members: IWizDevice[]): IWizDevice {
+    const types = members.map(member => member.type);
+    const type: IWizDevice['type'] = types.every(type => type === 'RGB_LIGHT')
+        ? 'RGB_LIGHT'
+        : types.every(type => type === 'RGB_LIGHT' || type === 'WHITE_LIGHT') ? 'WHITE_LIGHT' : 'DIMMABLE_LIGHT';
+
+    const whiteRanges = members.map(member => member.whiteRange).filter(whiteRange => whiteRange) as [number, number][];
+    let whiteRange: [number, number]|undefined;
+    if (whiteRanges.length) {
+        whiteRange = [Math.max(...whiteRanges.map(range => range[0])), Math.min(...whiteRanges.map(range => range[1]))];
+    }
+
+    return {
+        ...members[0],
+        // the members are found by their own MAC, this one only has to differ from theirs
+        mac: `group:${name}`,
+        type,
+        moduleName: 'WiZ Group',
+        fwVersion: undefined,
+        whiteRange: whiteRange && whiteRange[0] <= whiteRange[1] ? whiteRange : undefined,
+    };
+}
+
+/**
+ * Calls the callback for every item with at most `concurrency` calls running at the same time,
+ * resolves once all of them are done
+ */
+async function mapConcurrently<T>(items: T[], concurrency: number, callback: (item: T) => Promise<void>): Promise<void> {
+    const queue = [...items];
+    const worker = async () => {
+        for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+            await callback(item);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+}
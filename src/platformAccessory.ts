@@ -1,24 +1,31 @@
 import {
+    AdaptiveLightingController,
     Service,
     PlatformAccessory,
     CharacteristicValue,
-    CharacteristicSetCallback,
-    CharacteristicGetCallback
 } from 'homebridge';
 
-import { HomebridgeWizHelper } from './platform';
-
-import udp, { Socket } from 'dgram';
-
-const requests: {[ key: string]: any} = {};
+import { HomebridgeWizHelper, IWizDevice, IWizRoutineConfig } from './platform';
+import { getMiredRange, hsToWizColor, kelvinToMired, miredToKelvin, wizColorToHs } from './color';
+import { getSceneId, getSupportedScenes, WIZ_SCENES } from './scenes';
+import { IWizPilot, IWizSetPilotParams } from './protocol';
+import { HomebridgeWizAccessory } from './baseAccessory';
+import { clampDimming, IWizFadeValues, WizFade } from './transition';
 
 /**
  * Platform Accessory
  * An instance of this class is created for each accessory your platform registers
  * Each accessory may expose multiple services of different service types.
  */
-export class HomebridgeWizLight {
+export class HomebridgeWizLight extends HomebridgeWizAccessory {
     private service: Service;
+    private sceneServices: { [sceneId: number]: Service } = {};
+    private routineServices: { [name: string]: Service } = {};
+    private adaptiveLighting?: AdaptiveLightingController;
+
+    // the transition or routine that is running, and the name of the routine
+    private fade?: WizFade;
+    private routine?: string;
 
     /**
      * The currentstate object
@@ -27,62 +34,125 @@ export class HomebridgeWizLight {
         On: false,
         Brightness: 100,
         Temperature: 140,
+        Hue: 0,
+        Saturation: 0,
+        // whether the light shows a colour (r/g/b) or white (temp)
+        ColorMode: false,
+        // 0 when no scene is running
+        SceneId: 0,
     };
 
-    private pendingRequest = false;
-    private callbacks: any = [];
+    /**
+     * The state before a scene was activated, restored when the scene is switched off
+     */
+    private stateBeforeScene = { ...this.currentState };
 
     constructor(
-        private readonly platform: HomebridgeWizHelper,
-        private readonly accessory: PlatformAccessory,
+        platform: HomebridgeWizHelper,
+        accessory: PlatformAccessory,
     ) {
+        super(platform, accessory);
 
-        // set accessory information
-        this.accessory.getService(this.platform.Service.AccessoryInformation)!
-            .setCharacteristic(this.platform.Characteristic.Manufacturer, 'WiZ')
-            .setCharacteristic(this.platform.Characteristic.Model, 'ESP14_SHTW1C_01');
-        // .setCharacteristic(this.platform.Characteristic.SerialNumber, 'Default-Serial');
+        const device: IWizDevice = accessory.context.device;
+
+        // a plug that was cached as a light before its type was detected
+        const outlet = this.accessory.getService(this.platform.Service.Outlet);
+        if (outlet) {
+            this.accessory.removeService(outlet);
+        }
 
         // get the LightBulb service if it exists, otherwise create a new LightBulb service
         // you can create multiple services for each accessory
-        this.service = this.accessory.getService(this.platform.Service.Lightbulb) || this.accessory.addService(this.platform.Service.Lightbulb);
+        this.service = this.accessory.getService(this.platform.Service.Lightbulb)
+            || this.accessory.addService(this.platform.Service.Lightbulb);
 
         // set the service name, this is what is displayed as the default name on the Home app
-        // in this example we are using the name we stored in the `accessory.context` in the `discoverDevices` method.
-        this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.mac);
+        // this is the configured name stored in the `accessory.context` in the `discoverDevices` method.
+        this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.name || accessory.displayName);
 
         // each service must implement at-minimum the "required characteristics" for the given service type
         // see https://developers.homebridge.io/#/service/Lightbulb
 
         // register handlers for the On/Off Characteristic
         this.service.getCharacteristic(this.platform.Characteristic.On)
-            .on('set', this.setOn.bind(this))                // SET - bind to the `setOn` method below
-            .on('get', this.getOn.bind(this));               // GET - bind to the `getOn` method below
+            .onSet(this.setOn.bind(this))                // SET - bind to the `setOn` method below
+            .onGet(this.getOn.bind(this));               // GET - bind to the `getOn` method below
 
         // register handlers for the Brightness Characteristic
         this.service.getCharacteristic(this.platform.Characteristic.Brightness)
-            .on('set', this.setBrightness.bind(this))                // SET - bind to the `setOn` method below
-            .on('get', this.getBrightness.bind(this));       // SET - bind to the 'setBrightness` method below
+            .onSet(this.setBrightness.bind(this))                // SET - bind to the `setBrightness` method below
+            .onGet(this.getBrightness.bind(this));       // GET - bind to the `getBrightness` method below
+
+        // only tunable white and RGBTW devices can change their colour temperature
+        if (device.type === 'WHITE_LIGHT' || device.type === 'RGB_LIGHT') {
+            // limit HomeKit to the white range the bulb reported, e.g. 2200K - 6500K
+            const [minValue, maxValue] = getMiredRange(device.whiteRange);
+            this.currentState.Temperature = Math.min(Math.max(this.currentState.Temperature, minValue), maxValue);
+            this.service.getCharacteristic(this.platform.Characteristic.ColorTemperature)
+                .setProps({ minValue, maxValue })
+                .onSet(this.setTemperature.bind(this))                // SET - bind to the `setTemperature` method below
+                .onGet(this.getTemperature.bind(this));       // GET - bind to the 'getTemperature` method below
+        } else if (this.service.testCharacteristic(this.platform.Characteristic.ColorTemperature)) {
+            this.service.removeCharacteristic(this.service.getCharacteristic(this.platform.Characteristic.ColorTemperature));
+        }
 
-        // register handlers for the Brightness Characteristic
-        this.service.getCharacteristic(this.platform.Characteristic.ColorTemperature)
-            .on('set', this.setTemperature.bind(this))                // SET - bind to the `setOn` method below
-            .on('get', this.getTemperature.bind(this));       // SET - bind to the 'setBrightness` method below
+        // register handlers for the Hue and Saturation Characteristics of RGB lights
+        if (device.type === 'RGB_LIGHT') {
+            this.service.getCharacteristic(this.platform.Characteristic.Hue)
+                .onSet(this.setHue.bind(this))
+                .onGet(this.getHue.bind(this));
+            this.service.getCharacteristic(this.platform.Characteristic.Saturation)
+                .onSet(this.setSaturation.bind(this))
+                .onGet(this.getSaturation.bind(this));
+        } else {
+            // a cached accessory may still have them from a type detected before
+            for (const characteristic of [this.platform.Characteristic.Hue, this.platform.Characteristic.Saturation]) {
+                if (this.service.testCharacteristic(characteristic)) {
+                    this.service.removeCharacteristic(this.service.getCharacteristic(characteristic));
+                }
+            }
+        }
 
+        // let HomeKit run adaptive lighting, the controller sets the temperature through `setTemperature`
+        // every minute and adjusts it when the brightness changes
+        if ((device.type === 'WHITE_LIGHT' || device.type === 'RGB_LIGHT') && this.platform.settings.adaptiveLighting !== false) {
+            this.adaptiveLighting = new this.platform.api.hap.AdaptiveLightingController(this.service);
+            this.accessory.configureController(this.adaptiveLighting);
+        }
+
+        this.configureScenes(device);
+        this.configureRoutines(device);
+
+        this.listen(device);
+    }
+
+    /**
+     * The next handler of the accessory configures its own adaptive lighting controller
+     */
+    dispose() {
+        super.dispose();
+        this.stopFade();
+        if (this.adaptiveLighting) {
+            this.accessory.removeController(this.adaptiveLighting);
+        }
     }
 
     /**
      * Handle "SET" requests from HomeKit
      * These are sent when the user changes the state of an accessory, for example, turning on a Light bulb.
      */
-    setOn(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    async setOn(value: CharacteristicValue) {
 
         this.platform.log.debug('Set Characteristic On ->', value);
 
 
-        this.request('setPilot', {state: value}, () => {
-            this.currentState.On = value as boolean;
-            callback(null);
+        // adaptive lighting keeps adjusting the temperature while the light is off, catch up when it turns on
+        const state = value as boolean;
+        const params = state && this.adaptiveLighting?.isAdaptiveLightingActive()
+            ? {state, temp: this.tempToKelvin(this.currentState.Temperature)}
+            : {state};
+        await this.setPilot(params, () => {
+            this.currentState.On = state;
         });
     }
 
@@ -99,177 +169,469 @@ export class HomebridgeWizLight {
      * @example
      * this.service.updateCharacteristic(this.platform.Characteristic.On, true)
      */
-    getOn(callback: CharacteristicGetCallback) {
+    getOn(): CharacteristicValue {
 
-        // implement your own code to check if the device is on
+        // the state is kept up to date by the syncPilot updates of the device
         const isOn = this.currentState.On;
 
         this.platform.log.debug('Get Characteristic On ->', isOn);
 
-        this.getPilot((response) => {
-            this.currentState.On = response.result.state;
-
-
-            // you must call the callback function
-            // the first argument should be null if there were no errors
-            // the second argument should be the value to return
-            callback(null, response.result.state);
-        });
+        // answers with the value, or with an error when the device is offline
+        return this.respond(isOn);
     }
 
     /**
      * Handle "SET" requests from HomeKit
      * These are sent when the user changes the state of an accessory, for example, changing the Brightness
      */
-    setBrightness(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    async setBrightness(value: CharacteristicValue) {
 
         // implement your own code to set the brightness
+        const from = this.currentState.Brightness;
         this.currentState.Brightness = value as number;
 
         this.platform.log.debug('Set Characteristic Brightness -> ', value);
 
-        this.request('setPilot', {dimming: this.currentState.Brightness}, () => {
-            // you must call the callback function
-            callback(null);
-        });
+        if (this.canFade()) {
+            await this.startTransition({dimming: from}, {dimming: this.currentState.Brightness});
+        } else {
+            await this.setPilot({dimming: this.currentState.Brightness});
+        }
     }
 
     /**
-     * Handle "SET" requests from HomeKit
-     * These are sent when the user changes the state of an accessory, for example, changing the Brightness
+     * Handle the "GET" requests from HomeKit
+     * These are sent when HomeKit wants to know the current state of the accessory, for example, the Brightness
      */
-    getBrightness(callback: CharacteristicGetCallback) {
+    getBrightness(): CharacteristicValue {
 
-        // implement your own code to set the brightness
         const value = this.currentState.Brightness;
 
         this.platform.log.debug('Get Characteristic Brightness -> ', value);
 
-        this.getPilot((response) => {
-            const result = response.result.dimming ?? 0;
-            this.currentState.Brightness = result;
-
-
-            // you must call the callback function
-            // the first argument should be null if there were no errors
-            // the second argument should be the value to return
-            callback(null, result);
-        });
+        return this.respond(value);
     }
 
     /**
      * Handle "SET" requests from HomeKit
      * These are sent when the user changes the state of an accessory, for example, changing the Temperature
      */
-    setTemperature(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    async setTemperature(value: CharacteristicValue) {
 
         // implement your own code to set the temperature
+        const from = this.currentState.Temperature;
         this.currentState.Temperature = value as number;
 
         this.platform.log.debug('Set Characteristic Temperature -> ', value);
 
-        this.request('setPilot', {temp: this.tempToCalvin(this.currentState.Temperature)}, () => {
-            // you must call the callback function
-            callback(null);
+        // any setPilot turns the light on, so the transitions of adaptive lighting are only sent while it is on
+        if (!this.currentState.On && this.adaptiveLighting?.isAdaptiveLightingActive()) {
+            return;
+        }
+
+        // a light showing a colour or scene has no temperature to start from
+        const temp = this.tempToKelvin(this.currentState.Temperature);
+        if (this.canFade() && !this.currentState.ColorMode && !this.currentState.SceneId) {
+            await this.startTransition({temp: this.tempToKelvin(from)}, {temp});
+            return;
+        }
+        await this.setPilot({temp}, () => {
+            this.leaveScene();
+            // the light switched to white, let HomeKit know the colour is gone
+            if (this.currentState.ColorMode) {
+                this.currentState.ColorMode = false;
+                this.currentState.Saturation = 0;
+                this.service.updateCharacteristic(this.platform.Characteristic.Saturation, 0);
+            }
         });
     }
 
     /**
-     * Handle "SET" requests from HomeKit
-     * These are sent when the user changes the state of an accessory, for example, changing the Temperature
+     * Handle the "GET" requests from HomeKit
+     * These are sent when HomeKit wants to know the current state of the accessory, for example, the Temperature
      */
-    getTemperature(callback: CharacteristicGetCallback) {
+    getTemperature(): CharacteristicValue {
 
-        // implement your own code to set the temperature
+        // a light showing a colour reports no temp, this is the last known one
         const value = this.currentState.Temperature;
 
         this.platform.log.debug('Get Characteristic Temperature -> ', value);
 
-        this.getPilot((response) => {
-            let temp = this.calvinToTemp(parseInt(response.result.temp));
-            if (isNaN(temp)) {
-                temp = 500;
-            }
-            this.currentState.Temperature = temp;
+        return this.respond(value);
+    }
 
+    /**
+     * Handle "SET" requests from HomeKit
+     * These are sent when the user picks a colour, HomeKit sends the hue and saturation separately
+     */
+    async setHue(value: CharacteristicValue) {
+        this.currentState.Hue = value as number;
 
-            // you must call the callback function
-            // the first argument should be null if there were no errors
-            // the second argument should be the value to return
-            callback(null, this.currentState.Temperature);
+        this.platform.log.debug('Set Characteristic Hue -> ', value);
+
+        await this.setColor();
+    }
+
+    /**
+     * Handle "SET" requests from HomeKit
+     * These are sent when the user picks a colour, HomeKit sends the hue and saturation separately
+     */
+    async setSaturation(value: CharacteristicValue) {
+        this.currentState.Saturation = value as number;
+
+        this.platform.log.debug('Set Characteristic Saturation -> ', value);
+
+        await this.setColor();
+    }
+
+    /**
+     * Sends the current hue and saturation as r/g/b/c/w, which switches the light to colour mode
+     */
+    setColor(): Promise<void> {
+        const color = hsToWizColor(this.currentState.Hue, this.currentState.Saturation);
+        return this.setPilot({...color}, () => {
+            this.leaveScene();
+            this.currentState.ColorMode = true;
         });
     }
 
-    // Calvin = 2700, 6500
-    // Temp   =  140, 500
-    tempToCalvin(temp) {
-        const total = 500 - 140;
-        // A)   current = 500 - 140 = 360
-        const current = temp - 140;
-        // A)   p = 1 - (360 / 360) = 0
-        const p = 1 - (current / total);
-        // A)   return Math.round(2700 + ((6500 - 2700) * 0)) = 2700;
-        return Math.round(2700 + ((6500 - 2700) * p));
-    }
-
-    calvinToTemp(calvin) {
-        const total = 6500 - 2700;
-        // A)   current = 2700 - 2700 = 0
-        const current = calvin - 2700;
-        // A)   p = 1 - (0 / 3800) = 1
-        const p = 1 - (current / total);
-        // A)   return Math.round(140 + ((500 - 140) * 1)) = 500
-        return Math.round(140 + ((500 - 140) * p));
-    }
-
-    getPilot(callback) {
-        this.callbacks.push(callback);
-        if (!this.pendingRequest) {
-            this.request('getPilot', {});
+    /**
+     * Handle the "GET" requests from HomeKit
+     * A light in white mode has no hue
+     */
+    getHue(): CharacteristicValue {
+
+        this.platform.log.debug('Get Characteristic Hue -> ', this.currentState.Hue);
+
+        return this.respond(this.currentState.Hue);
+    }
+
+    /**
+     * Handle the "GET" requests from HomeKit
+     * A light in white mode has no saturation
+     */
+    getSaturation(): CharacteristicValue {
+
+        this.platform.log.debug('Get Characteristic Saturation -> ', this.currentState.Saturation);
+
+        return this.respond(this.currentState.Saturation);
+    }
+
+    /**
+     * Updates the colour mode, hue and saturation from the result of a getPilot.
+     * The light is in colour mode when it reports r/g/b instead of temp.
+     */
+    updateColorState(result: IWizPilot) {
+        if (result.r === undefined || result.temp) {
+            this.currentState.ColorMode = false;
+            this.currentState.Saturation = 0;
+            return;
         }
+        const { hue, saturation } = wizColorToHs(result);
+        this.currentState.ColorMode = true;
+        this.currentState.Hue = hue;
+        this.currentState.Saturation = saturation;
     }
 
-    request(method, params, callback?: (data: any) => void) {
+    /**
+     * Adds a Switch service for every configured scene the device supports and removes the ones no longer configured
+     */
+    configureScenes(device: IWizDevice) {
+        const supported = getSupportedScenes(device.type);
+        const sceneIds: number[] = [];
+        for (const name of this.accessory.context.scenes ?? []) {
+            const sceneId = getSceneId(name);
+            if (sceneId === undefined || !supported.includes(sceneId)) {
+                this.platform.log.warn(`${this.accessory.displayName} does not support the scene "${name}"`);
+            } else if (!sceneIds.includes(sceneId)) {
+                sceneIds.push(sceneId);
+            }
+        }
 
-        this.pendingRequest = true;
-        const client = udp.createSocket('udp4');
+        for (const service of this.accessory.services) {
+            const subtype = service.subtype ?? '';
+            if (subtype.startsWith('scene-') && !sceneIds.includes(Number(subtype.substring('scene-'.length)))) {
+                this.accessory.removeService(service);
+            }
+        }
 
-        const json = JSON.stringify({
-            method,
-            params,
-        });
-        //'{"method":"setPilot","params":{"state":true}}'
-        const bufferData = Buffer.from(json);
+        for (const sceneId of sceneIds) {
+            const subtype = `scene-${sceneId}`;
+            const service = this.accessory.getServiceById(this.platform.Service.Switch, subtype)
+                || this.accessory.addService(this.platform.Service.Switch, WIZ_SCENES[sceneId], subtype);
+            service.getCharacteristic(this.platform.Characteristic.On)
+                .onSet(value => this.setScene(sceneId, value))
+                .onGet(() => this.getScene(sceneId));
+            this.sceneServices[sceneId] = service;
+        }
+    }
+
+    /**
+     * Handle "SET" requests from HomeKit
+     * Switching a scene on starts it, switching it off restores the white or colour state from before the scene
+     */
+    async setScene(sceneId: number, value: CharacteristicValue) {
+
+        this.platform.log.debug(`Set Characteristic Scene ${WIZ_SCENES[sceneId]} ->`, value);
+
+        if (value) {
+            if (!this.currentState.SceneId) {
+                this.stateBeforeScene = { ...this.currentState };
+            }
+            this.disableAdaptiveLighting();
+            await this.setPilot({sceneId, speed: this.accessory.context.sceneSpeed ?? 100}, () => {
+                this.currentState.SceneId = sceneId;
+                this.currentState.On = true;
+                this.service.updateCharacteristic(this.platform.Characteristic.On, true);
+                this.updateSceneServices();
+            });
+        } else if (this.currentState.SceneId === sceneId) {
+            const type = this.accessory.context.device.type;
+            const previous = this.stateBeforeScene;
+            const params = {
+                dimming: previous.Brightness,
+                ...(previous.ColorMode
+                    ? hsToWizColor(previous.Hue, previous.Saturation)
+                    : type === 'DIMMABLE_LIGHT' ? {} : {temp: this.tempToKelvin(previous.Temperature)}
+                ),
+            };
+            await this.setPilot(params, () => {
+                this.currentState = { ...previous, On: this.currentState.On, SceneId: 0 };
+                this.updateSceneServices();
+            });
+        }
+    }
+
+    /**
+     * Handle the "GET" requests from HomeKit
+     * A scene switch is on while the light runs that scene
+     */
+    getScene(sceneId: number): CharacteristicValue {
+
+        const isActive = this.currentState.On && this.currentState.SceneId === sceneId;
+
+        this.platform.log.debug(`Get Characteristic Scene ${WIZ_SCENES[sceneId]} ->`, isActive);
+
+        return this.respond(isActive);
+    }
 
-        const ip = this.accessory.context.device.ip;
-        const mac = this.accessory.context.device.mac;
+    /**
+     * Adds a Switch service for every routine of the light and removes the ones no longer configured
+     */
+    configureRoutines(device: IWizDevice) {
+        const routines: IWizRoutineConfig[] = this.accessory.context.routines ?? [];
+        for (const service of this.accessory.services) {
+            const subtype = service.subtype ?? '';
+            if (subtype.startsWith('routine-') && !routines.some(routine => `routine-${routine.name}` === subtype)) {
+                this.accessory.removeService(service);
+            }
+        }
 
+        for (const routine of routines) {
+            if (routine.to.temp !== undefined && device.type === 'DIMMABLE_LIGHT') {
+                this.platform.log.debug(`${this.accessory.displayName} can't change its temperature, "${routine.name}" only dims it`);
+            }
+            const subtype = `routine-${routine.name}`;
+            const service = this.accessory.getServiceById(this.platform.Service.Switch, subtype)
+                || this.accessory.addService(this.platform.Service.Switch, routine.name, subtype);
+            service.getCharacteristic(this.platform.Characteristic.On)
+                .onSet(value => this.setRoutine(routine, value))
+                .onGet(() => this.respond(this.routine === routine.name));
+            this.routineServices[routine.name] = service;
+        }
+    }
+
+    /**
+     * Handle "SET" requests from HomeKit
+     * Switching a routine on turns the light on with the `from` state and fades it to the `to` state over the duration.
+     * Switching it off, or any other change of the light, stops it where it is.
+     */
+    async setRoutine(routine: IWizRoutineConfig, value: CharacteristicValue) {
 
-        client.on('message', (message) => {
-            this.pendingRequest = false;
-            this.platform.log.debug('Retrieved from bulb ', JSON.parse(message.toString()));
+        this.platform.log.debug(`Set Characteristic Routine ${routine.name} ->`, value);
 
-            if (callback) {
-                callback(JSON.parse(message.toString()));
-            } else {
-                this.callbacks.forEach((callback) => {
-                    callback(JSON.parse(message.toString()));
-                });
-                this.callbacks = [];
+        if (!value) {
+            if (this.routine === routine.name) {
+                this.stopFade();
             }
+            return;
+        }
 
+        this.disableAdaptiveLighting();
+        const current = {dimming: this.currentState.Brightness, temp: this.tempToKelvin(this.currentState.Temperature)};
+        const from = this.getFadeValues(routine.from ?? {}, current);
+        const to = this.getFadeValues(routine.to, from);
+        await this.setPilot({state: true, ...from}, () => {
+            this.currentState.On = true;
+            this.service.updateCharacteristic(this.platform.Characteristic.On, true);
+        });
 
-            setTimeout(() => client.close(), 0);
+        this.platform.log.info(`Starting the routine "${routine.name}" of ${this.accessory.displayName}`);
+        const fade = this.startFade(from, to, routine.duration * 60000);
+        this.routine = routine.name;
+        this.updateRoutineServices();
+        fade.finished.then((completed) => {
+            this.platform.log.info(`The routine "${routine.name}" of ${this.accessory.displayName} ${completed ? 'finished' : 'stopped'}`);
+            if (this.routine === routine.name && this.fade === undefined) {
+                this.routine = undefined;
+                this.updateRoutineServices();
+            }
         });
+        await fade.started;
+    }
+
+    /**
+     * Fills in the values a routine leaves out, and leaves out the temp of a dimmable light.
+     * The dimming is kept within the 10-100% the devices accept.
+     */
+    getFadeValues(values: IWizFadeValues, fallback: IWizFadeValues): IWizFadeValues {
+        const canChangeTemp = this.accessory.context.device.type !== 'DIMMABLE_LIGHT';
+        return clampDimming({
+            dimming: values.dimming ?? fallback.dimming,
+            temp: canChangeTemp ? values.temp ?? fallback.temp : undefined,
+        });
+    }
+
+    /**
+     * Whether a brightness or temperature change should fade, a light that is off shows no change
+     */
+    canFade(): boolean {
+        return this.accessory.context.transition > 0 && this.currentState.On;
+    }
 
-        this.platform.log.debug(`Sending ip: ${ip} // Sending mac: ${mac}`);
+    /**
+     * Fades to the values HomeKit set over the `transition`, resolves once the first step was accepted
+     */
+    startTransition(from: IWizFadeValues, to: IWizFadeValues): Promise<void> {
+        // a transition of the other value is still running, it continues from where it is along with this one
+        const previous = this.fade && !this.routine ? this.fade : undefined;
+        const duration = this.accessory.context.transition * 1000;
+        return this.startFade({...previous?.current, ...from}, {...previous?.to, ...to}, duration).started;
+    }
 
-        client.send(bufferData, 38899, ip, (error) => {
-            this.pendingRequest = false;
-            if (error) {
-                client.close();
-                throw error;
+    /**
+     * Stops the running transition or routine and starts the fade, its steps don't stop it like other changes do
+     */
+    startFade(from: IWizFadeValues, to: IWizFadeValues, duration: number): WizFade {
+        this.stopFade();
+        const fade = new WizFade(from, to, duration, params => super.setPilot({...params}));
+        this.fade = fade;
+        fade.finished.then(() => {
+            if (this.fade === fade) {
+                this.fade = undefined;
             }
         });
+        return fade;
+    }
+
+    /**
+     * Stops the running transition or routine, returns the values a stopped transition was heading to.
+     * A routine stays where it is.
+     */
+    stopFade(): IWizFadeValues {
+        const fade = this.fade;
+        const target = fade && !this.routine ? fade.to : {};
+        this.fade = undefined;
+        fade?.cancel();
+        if (this.routine) {
+            this.routine = undefined;
+            this.updateRoutineServices();
+        }
+        return target;
+    }
+
+    /**
+     * Every change HomeKit makes stops the running transition or routine. A stopped transition still reaches its target,
+     * the change is sent along with it.
+     */
+    async setPilot(params: IWizSetPilotParams, apply?: () => void): Promise<void> {
+        const target = this.stopFade();
+        await super.setPilot({...target, ...params}, apply);
+    }
+
+    /**
+     * Updates the current state from a getPilot result or syncPilot push and lets HomeKit know about it,
+     * this is how changes made with the WiZ app or a wall switch reach HomeKit
+     */
+    applyPilot(result: IWizPilot) {
+        const type = this.accessory.context.device.type;
+        const { Characteristic } = this.platform;
+
+        this.currentState.On = result.state;
+        this.service.updateCharacteristic(Characteristic.On, this.currentState.On);
+
+        if (result.dimming !== undefined) {
+            this.currentState.Brightness = result.dimming;
+            this.service.updateCharacteristic(Characteristic.Brightness, this.currentState.Brightness);
+        }
+
+        this.updateColorState(result);
+        // a light showing a colour or running a scene reports no temp, keep the last one
+        if (!this.currentState.ColorMode && result.temp) {
+            this.currentState.Temperature = this.kelvinToTemp(result.temp);
+        }
+        if (type === 'WHITE_LIGHT' || type === 'RGB_LIGHT') {
+            this.service.updateCharacteristic(Characteristic.ColorTemperature, this.currentState.Temperature);
+        }
+        if (type === 'RGB_LIGHT') {
+            this.service.updateCharacteristic(Characteristic.Hue, this.currentState.Hue);
+            this.service.updateCharacteristic(Characteristic.Saturation, this.currentState.Saturation);
+        }
+
+        this.currentState.SceneId = result.sceneId ?? 0;
+        this.updateSceneServices();
+
+        // a colour or scene picked with the WiZ app, HomeKit can't detect that by itself
+        if (this.currentState.ColorMode || this.currentState.SceneId) {
+            this.disableAdaptiveLighting();
+        }
+    }
+
+    /**
+     * Stops adaptive lighting when the light shows something it didn't pick. Writes to Hue, Saturation
+     * and ColorTemperature from HomeKit are detected by the controller itself.
+     */
+    disableAdaptiveLighting() {
+        if (this.adaptiveLighting?.isAdaptiveLightingActive()) {
+            this.platform.log.info(`Disabling adaptive lighting of ${this.accessory.displayName}`);
+            this.adaptiveLighting.disableAdaptiveLighting();
+        }
+    }
+
+    /**
+     * Called when the light shows a manually picked white or colour, which ends any running scene
+     */
+    leaveScene() {
+        if (this.currentState.SceneId) {
+            this.currentState.SceneId = 0;
+            this.updateSceneServices();
+        }
+    }
+
+    updateRoutineServices() {
+        for (const name of Object.keys(this.routineServices)) {
+            this.routineServices[name].updateCharacteristic(this.platform.Characteristic.On, this.routine === name);
+        }
+    }
+
+    updateSceneServices() {
+        for (const sceneId of Object.keys(this.sceneServices)) {
+            const isActive = this.currentState.On && Number(sceneId) === this.currentState.SceneId;
+            this.sceneServices[sceneId].updateCharacteristic(this.platform.Characteristic.On, isActive);
+        }
+    }
+
+    /**
+     * Converts a HomeKit colour temperature (mired) to kelvin within the white range this bulb reported
+     */
+    tempToKelvin(temp: number): number {
+        return miredToKelvin(temp, this.accessory.context.device.whiteRange);
+    }
+
+    /**
+     * Converts kelvin to a HomeKit colour temperature (mired) within the white range this bulb reported
+     */
+    kelvinToTemp(kelvin: number): number {
+        return kelvinToMired(kelvin, this.accessory.context.device.whiteRange);
     }
 }
@@ -0,0 +1,198 @@
+import {
+    Service,
+    PlatformAccessory,
+    CharacteristicValue,
+} from 'homebridge';
+
+import { HomebridgeWizHelper, IWizDevice } from './platform';
+import { IWizPilot } from './protocol';
+import { HomebridgeWizAccessory } from './baseAccessory';
+import { WizTimeoutError } from './transport';
+
+// how often the power reading is refreshed (ms)
+const POWER_INTERVAL = 60000;
+
+// below this (W) nothing is considered plugged in
+const IN_USE_THRESHOLD = 0.5;
+
+/**
+ * Plug Accessory
+ * An instance of this class is created for every WiZ smart plug, it exposes an Outlet service.
+ * Plugs whose firmware reports its power usage through `getPower` also expose the consumption.
+ */
+export class HomebridgeWizPlug extends HomebridgeWizAccessory {
+    private service: Service;
+    private powerTimer?: NodeJS.Timeout;
+    // whether the firmware reports the power usage, undefined until the plug answered getPower
+    private powerSupported?: boolean;
+    private disposed = false;
+
+    private currentState = {
+        On: false,
+        // watt, undefined when the plug can't measure it
+        Power: undefined as number|undefined,
+    };
+
+    constructor(
+        platform: HomebridgeWizHelper,
+        accessory: PlatformAccessory,
+    ) {
+        super(platform, accessory);
+
+        const device: IWizDevice = accessory.context.device;
+
+        // a plug that was cached as a light before its type was detected, with its scene and routine switches
+        const lightbulb = this.accessory.getService(this.platform.Service.Lightbulb);
+        if (lightbulb) {
+            this.accessory.removeService(lightbulb);
+        }
+        for (const service of this.accessory.services.filter(service => service.UUID === this.platform.Service.Switch.UUID)) {
+            const subtype = service.subtype ?? '';
+            if (subtype.startsWith('scene-') || subtype.startsWith('routine-')) {
+                this.accessory.removeService(service);
+            }
+        }
+
+        this.service = this.accessory.getService(this.platform.Service.Outlet)
+            || this.accessory.addService(this.platform.Service.Outlet);
+        this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.name || accessory.displayName);
+
+        this.service.getCharacteristic(this.platform.Characteristic.On)
+            .onSet(this.setOn.bind(this))
+            .onGet(this.getOn.bind(this));
+        this.service.getCharacteristic(this.platform.Characteristic.OutletInUse)
+            .onGet(this.getOutletInUse.bind(this));
+
+        this.listen(device);
+        this.detectPower();
+    }
+
+    dispose() {
+        super.dispose();
+        this.disposed = true;
+        if (this.powerTimer) {
+            clearInterval(this.powerTimer);
+        }
+    }
+
+    refresh(device: IWizDevice) {
+        super.refresh(device);
+        if (this.powerSupported === undefined) {
+            this.detectPower();
+        }
+    }
+
+    async poll() {
+        await super.poll();
+        if (this.powerSupported === undefined) {
+            await this.detectPower();
+        }
+    }
+
+    /**
+     * Handle "SET" requests from HomeKit
+     */
+    async setOn(value: CharacteristicValue) {
+
+        this.platform.log.debug('Set Characteristic On ->', value);
+
+        await this.setPilot({state: value as boolean}, () => {
+            this.currentState.On = value as boolean;
+            this.service.updateCharacteristic(this.platform.Characteristic.OutletInUse, this.isInUse());
+        });
+    }
+
+    /**
+     * Handle the "GET" requests from HomeKit
+     */
+    getOn(): CharacteristicValue {
+
+        this.platform.log.debug('Get Characteristic On ->', this.currentState.On);
+
+        return this.respond(this.currentState.On);
+    }
+
+    /**
+     * Handle the "GET" requests from HomeKit
+     * Without a power reading the outlet is in use whenever it is on
+     */
+    getOutletInUse(): CharacteristicValue {
+
+        this.platform.log.debug('Get Characteristic OutletInUse ->', this.isInUse());
+
+        return this.respond(this.isInUse());
+    }
+
+    getConsumption(): CharacteristicValue {
+        return this.respond(this.currentState.Power ?? 0);
+    }
+
+    applyPilot(result: IWizPilot) {
+        this.currentState.On = result.state;
+        this.service.updateCharacteristic(this.platform.Characteristic.On, this.currentState.On);
+        this.service.updateCharacteristic(this.platform.Characteristic.OutletInUse, this.isInUse());
+    }
+
+    isInUse(): boolean {
+        return this.currentState.On && (this.currentState.Power === undefined || this.currentState.Power >= IN_USE_THRESHOLD);
+    }
+
+    /**
+     * Asks the plug for its power usage, the answer tells whether the firmware supports it. The consumption
+     * characteristic is only added and refreshed when it does. A plug that doesn't answer, e.g. while its accessory
+     * is restored from the cache, is asked again with the next poll or discovery.
+     */
+    async detectPower() {
+        const { CurrentConsumption } = this.platform.CustomCharacteristic;
+        let power: number|undefined;
+        try {
+            const response = await this.platform.transport.request(this.accessory.context.device.ip, 'getPower', {}, { quiet: true });
+            power = response.result.power;
+        } catch (error) {
+            if (error instanceof WizTimeoutError) {
+                return;
+            }
+        }
+        // the handler may have been replaced meanwhile, or a poll and a discovery detected it at the same time
+        if (this.disposed || this.powerSupported !== undefined) {
+            return;
+        }
+
+        this.powerSupported = power !== undefined;
+        if (power === undefined) {
+            this.platform.log.debug(`${this.accessory.displayName} does not report its power usage`);
+            const consumption = this.service.characteristics.find(characteristic => characteristic.UUID === CurrentConsumption.UUID);
+            if (consumption) {
+                this.service.removeCharacteristic(consumption);
+            }
+            return;
+        }
+
+        // HAP warns about characteristics a service doesn't list
+        this.service.addOptionalCharacteristic(CurrentConsumption);
+        this.service.getCharacteristic(CurrentConsumption)
+            .onGet(this.getConsumption.bind(this));
+        this.powerTimer = setInterval(() => this.updatePower(), POWER_INTERVAL);
+        // the reading must not keep Homebridge from shutting down
+        this.powerTimer.unref();
+        this.applyPower(power);
+    }
+
+    /**
+     * Refreshes the power usage of a plug that reports it
+     */
+    async updatePower() {
+        try {
+            const response = await this.platform.transport.request(this.accessory.context.device.ip, 'getPower');
+            this.applyPower(response.result.power);
+        } catch (error) {
+            // already logged, the next reading may succeed
+        }
+    }
+
+    private applyPower(milliwatt: number) {
+        this.currentState.Power = milliwatt / 1000;
+        this.service.updateCharacteristic(this.platform.CustomCharacteristic.CurrentConsumption, this.currentState.Power);
+        this.service.updateCharacteristic(this.platform.Characteristic.OutletInUse, this.isInUse());
+    }
+}
@@ -0,0 +1,97 @@
+import assert from 'assert';
+
+import { parsePushMessage, parseResponse, WizDeviceError, WizProtocolError } from './protocol';
+import { WizTimeoutError, WizTransport } from './transport';
+import { MockWizDevice } from './mocks/wizDevice';
+import { createMockLogger } from './mocks/homebridge';
+
+describe('protocol', () => {
+    describe('parseResponse', () => {
+        it('accepts a valid answer', () => {
+            const response = { method: 'getPilot', env: 'pro', result: { mac: 'a8bb50000001', state: true, dimming: 50, rssi: -60 } };
+
+            assert.strictEqual(parseResponse('192.168.1.20', 'getPilot', response), response);
+        });
+
+        it('throws a WizDeviceError when the device answered with an error', () => {
+            const response = { method: 'getPower', env: 'pro', error: { code: -32601, message: 'Method not found' } };
+
+            assert.throws(() => parseResponse('192.168.1.20', 'getPower', response), (error: WizDeviceError) => {
+                assert.ok(error instanceof WizDeviceError);
+                assert.strictEqual(error.code, -32601);
+                assert.strictEqual(error.message, 'getPower on 192.168.1.20 failed with -32601: Method not found');
+                return true;
+            });
+        });
+
+        it('throws a WizProtocolError when the answer is not what the method answers', () => {
+            const parse = (response: unknown) => () => parseResponse('192.168.1.20', 'getPilot', response);
+
+            assert.throws(parse('ok'), WizProtocolError);
+            assert.throws(parse({ method: 'getPilot' }), /Invalid answer to getPilot from 192.168.1.20: the result is not an object/);
+            assert.throws(parse({ result: { mac: 'a8bb50000001' } }), /state is missing/);
+            assert.throws(parse({ result: { mac: 'a8bb50000001', state: true, dimming: '50' } }), /dimming is not a number/);
+            assert.throws(() => parseResponse('192.168.1.20', 'getModelConfig', { result: { cctRange: [2200, 'x'] } }),
+                /cctRange is not a list of numbers/);
+        });
+    });
+
+    describe('parsePushMessage', () => {
+        it('accepts syncPilot and firstBeat', () => {
+            const syncPilot = { method: 'syncPilot', env: 'pro', params: { mac: 'a8bb50000001', state: false, rssi: -60 } };
+            const firstBeat = { method: 'firstBeat', env: 'pro', params: { mac: 'a8bb50000001', fwVersion: '1.22.0' } };
+
+            assert.strictEqual(parsePushMessage(syncPilot), syncPilot);
+            assert.strictEqual(parsePushMessage(firstBeat), firstBeat);
+        });
+
+        it('ignores other and invalid messages', () => {
+            assert.strictEqual(parsePushMessage(null), undefined);
+            assert.strictEqual(parsePushMessage({ method: 'getPilot', params: { mac: 'a8bb50000001', state: true } }), undefined);
+            assert.strictEqual(parsePushMessage({ method: 'syncPilot', params: { mac: 'a8bb50000001' } }), undefined);
+            assert.strictEqual(parsePushMessage({ method: 'firstBeat', params: {} }), undefined);
+        });
+    });
+
+    describe('WizTransport', () => {
+        let device: MockWizDevice;
+        let transport: WizTransport;
+
+        beforeEach(async () => {
+            device = new MockWizDevice({ ip: '127.0.0.2', mac: 'a8bb50000001' });
+            await device.start();
+            transport = new WizTransport(createMockLogger(), { timeout: 100, retries: 1 });
+        });
+
+        afterEach(async () => {
+            transport.close();
+            await device.stop();
+        });
+
+        it('rejects with the error the device answered', async () => {
+            // the mock is a bulb, it doesn't know getPower
+            await assert.rejects(transport.request('127.0.0.2', 'getPower'), WizDeviceError);
+        });
+
+        it('does not take the late answer to a request that timed out', async () => {
+            device.latency = 150;
+            await assert.rejects(transport.request('127.0.0.2', 'getPilot', {}, { retries: 0 }), WizTimeoutError);
+            device.pilot.dimming = 30;
+
+            const response = await transport.request('127.0.0.2', 'getPilot', {}, { timeout: 300, retries: 0 });
+            assert.strictEqual(response.result.dimming, 30);
+        });
+
+        it('ignores an answer that is not an object', async () => {
+            device.rawReply = 'null';
+
+            await assert.rejects(transport.request('127.0.0.2', 'getPilot'), WizTimeoutError);
+        });
+
+        it('rejects an invalid answer instead of passing it on', async () => {
+            device.pilot.state = 'on' as unknown as boolean;
+
+            await assert.rejects(transport.request('127.0.0.2', 'getPilot'), /state is not a boolean/);
+        });
+    });
+});
@@ -0,0 +1,252 @@
+/**
+ * The requests the WiZ devices understand and what they answer, sent as JSON over UDP, e.g.
+ * {"id":1,"method":"getPilot","params":{}} is answered with {"id":1,"method":"getPilot","env":"pro","result":{...}}
+ * or with {"id":1,"method":"getPilot","env":"pro","error":{"code":-32601,"message":"Method not found"}}.
+ * Every answer is validated before it is used, a device with unexpected firmware can't crash the plugin.
+ */
+
+/**
+ * The state of a device, as getPilot answers it and syncPilot pushes it. A device only reports the params of
+ * its current mode: temp in white mode, r/g/b/c/w in colour mode, sceneId and speed while running a scene.
+ */
+export interface IWizPilot {
+    mac: string;
+    state: boolean;
+    // dBm
+    rssi?: number;
+    // what caused the last change, e.g. "udp" or "hb" (heartbeat)
+    src?: string;
+    // 0 when no scene is running
+    sceneId?: number;
+    // 10-200 (%)
+    speed?: number;
+    // kelvin
+    temp?: number;
+    // 10-100 (%)
+    dimming?: number;
+    // 0-255, only reported in colour mode
+    r?: number;
+    g?: number;
+    b?: number;
+    c?: number;
+    w?: number;
+}
+
+export type IWizSetPilotParams = Partial<Omit<IWizPilot, 'mac' | 'rssi' | 'src'>>;
+
+export interface IWizSystemConfig {
+    mac: string;
+    // e.g. ESP01_SHRGB1C_31, tells what the device is
+    moduleName: string;
+    fwVersion: string;
+    homeId?: number;
+    roomId?: number;
+}
+
+export interface IWizModelConfig {
+    // kelvin, newer firmware
+    cctRange?: number[];
+}
+
+export interface IWizWhiteRange {
+    // kelvin, older firmware
+    whiteRange?: number[];
+}
+
+export interface IWizPower {
+    // milliwatt
+    power: number;
+}
+
+export interface IWizRegistrationParams {
+    // the address the device sends its syncPilot pushes to
+    phoneIp: string;
+    phoneMac: string;
+    register: boolean;
+    id: string;
+}
+
+export interface IWizRegistration {
+    mac: string;
+    success: boolean;
+}
+
+export interface IWizSuccess {
+    success: boolean;
+}
+
+// a device sends this once after it started, before it has a state
+export interface IWizFirstBeat {
+    mac: string;
+    fwVersion?: string;
+    homeId?: number;
+}
+
+/**
+ * The params and result of every method this plugin sends
+ */
+export interface IWizMethods {
+    getPilot: { params: Record<string, never>; result: IWizPilot };
+    setPilot: { params: IWizSetPilotParams; result: IWizSuccess };
+    getSystemConfig: { params: Record<string, never>; result: IWizSystemConfig };
+    getModelConfig: { params: Record<string, never>; result: IWizModelConfig };
+    getExtendedWhiteRange: { params: Record<string, never>; result: IWizWhiteRange };
+    getWhiteRange: { params: Record<string, never>; result: IWizWhiteRange };
+    getPower: { params: Record<string, never>; result: IWizPower };
+    registration: { params: IWizRegistrationParams; result: IWizRegistration };
+}
+
+export type WizMethod = keyof IWizMethods;
+export type WizParams<M extends WizMethod> = IWizMethods[M]['params'];
+
+export interface IWizResponse<M extends WizMethod> {
+    method: M;
+    env?: string;
+    // echoed by the firmware that supports it
+    id?: number;
+    result: IWizMethods[M]['result'];
+}
+
+export type IWizPilotResponse = IWizResponse<'getPilot'>;
+
+export type IWizPushMessage =
+    | { method: 'syncPilot'; env?: string; params: IWizPilot }
+    | { method: 'firstBeat'; env?: string; params: IWizFirstBeat };
+
+/**
+ * Anything that went wrong talking to a device
+ */
+export class WizError extends Error {
+    constructor(
+        public readonly ip: string,
+        public readonly method: string,
+        message: string,
+    ) {
+        super(message);
+        this.name = 'WizError';
+    }
+}
+
+/**
+ * The device answered, but with an error, e.g. {"error":{"code":-32601,"message":"Method not found"}}
+ */
+export class WizDeviceError extends WizError {
+    constructor(
+        ip: string,
+        method: string,
+        public readonly code: number,
+        message: string,
+    ) {
+        super(ip, method, `${method} on ${ip} failed with ${code}: ${message}`);
+        this.name = 'WizDeviceError';
+    }
+}
+
+/**
+ * The device answered something that isn't what the method answers, e.g. a getPilot result without a state
+ */
+export class WizProtocolError extends WizError {
+    constructor(ip: string, method: string, problem: string) {
+        super(ip, method, `Invalid answer to ${method} from ${ip}: ${problem}`);
+        this.name = 'WizProtocolError';
+    }
+}
+
+type Check = (value: unknown) => boolean;
+
+// the type of every field of a result, the fields that aren't listed are kept as they are
+type Schema = { [field: string]: { check: Check; type: string; optional?: boolean } };
+
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isNumber: Check = value => typeof value === 'number' && isFinite(value);
+const isNumberArray: Check = value => Array.isArray(value) && value.every(isNumber);
+
+const string = { check: isString, type: 'a string' };
+const boolean = { check: isBoolean, type: 'a boolean' };
+const number = { check: isNumber, type: 'a number' };
+const numbers = { check: isNumberArray, type: 'a list of numbers' };
+const optional = (field: Schema[string]) => ({ ...field, optional: true });
+
+const PILOT: Schema = {
+    mac: string,
+    state: boolean,
+    rssi: optional(number),
+    src: optional(string),
+    sceneId: optional(number),
+    speed: optional(number),
+    temp: optional(number),
+    dimming: optional(number),
+    r: optional(number),
+    g: optional(number),
+    b: optional(number),
+    c: optional(number),
+    w: optional(number),
+};
+
+const RESULTS: { [method in WizMethod]: Schema } = {
+    getPilot: PILOT,
+    setPilot: { success: boolean },
+    getSystemConfig: { mac: string, moduleName: string, fwVersion: string, homeId: optional(number), roomId: optional(number) },
+    getModelConfig: { cctRange: optional(numbers) },
+    getExtendedWhiteRange: { whiteRange: optional(numbers) },
+    getWhiteRange: { whiteRange: optional(numbers) },
+    getPower: { power: number },
+    registration: { mac: string, success: boolean },
+};
+
+const FIRST_BEAT: Schema = { mac: string, fwVersion: optional(string), homeId: optional(number) };
+
+/**
+ * Returns what is wrong with the value, or undefined when it matches the schema
+ */
+function validate(value: unknown, schema: Schema): string|undefined {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return 'the result is not an object';
+    }
+    for (const [name, field] of Object.entries(schema)) {
+        const fieldValue = (value as Record<string, unknown>)[name];
+        if (fieldValue === undefined) {
+            if (!field.optional) {
+                return `${name} is missing`;
+            }
+        } else if (!field.check(fieldValue)) {
+            return `${name} is not ${field.type}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks the answer of a device to the method. Throws a WizDeviceError when the device answered with an error
+ * and a WizProtocolError when the answer isn't what the method answers.
+ */
+export function parseResponse<M extends WizMethod>(ip: string, method: M, response: unknown): IWizResponse<M> {
+    if (typeof response !== 'object' || response === null) {
+        throw new WizProtocolError(ip, method, 'the answer is not an object');
+    }
+    const { error, result } = response as { error?: { code?: unknown; message?: unknown }; result?: unknown };
+    if (error) {
+        const code = isNumber(error.code) ? error.code as number : 0;
+        throw new WizDeviceError(ip, method, code, isString(error.message) ? error.message as string : 'unknown error');
+    }
+    const problem = validate(result, RESULTS[method]);
+    if (problem) {
+        throw new WizProtocolError(ip, method, problem);
+    }
+    return response as IWizResponse<M>;
+}
+
+/**
+ * Checks a message received on the push port, returns undefined when it isn't a valid syncPilot or firstBeat
+ */
+export function parsePushMessage(message: unknown): IWizPushMessage|undefined {
+    const { method, params } = (message ?? {}) as { method?: unknown; params?: unknown };
+    if (method === 'syncPilot' && !validate(params, PILOT)) {
+        return message as IWizPushMessage;
+    }
+    if (method === 'firstBeat' && !validate(params, FIRST_BEAT)) {
+        return message as IWizPushMessage;
+    }
+    return undefined;
+}
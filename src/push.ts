@@ -0,0 +1,139 @@
+import udp from 'dgram';
+import os from 'os';
+import { EventEmitter } from 'events';
+import { Logger } from 'homebridge';
+
+import { WIZ_PORT } from './discovery';
+import { IWizPushMessage, parsePushMessage } from './protocol';
+
+// the port WiZ devices send their syncPilot heartbeats to once registered
+export const WIZ_PUSH_PORT = 38900;
+
+// devices forget a registration after a while, so it is renewed on this interval (ms)
+const REGISTRATION_INTERVAL = 30000;
+
+/**
+ * Listens on the push port for `syncPilot` heartbeats of every registered device on a single shared socket.
+ * Emits an event named after the MAC of the device with the message and the ip it came from, and a `push` event for every device.
+ * Messages that aren't a valid syncPilot or firstBeat are ignored.
+ */
+export class WizPushListener extends EventEmitter {
+    private readonly socket = udp.createSocket('udp4');
+    private readonly registered = new Set<string>();
+    private timer?: NodeJS.Timeout;
+    private listening = false;
+    private closed = false;
+
+    constructor(
+        private readonly log: Logger,
+        private readonly localAddress = getLocalAddress(),
+        // the socket only listens on this address when set, on all interfaces otherwise
+        private readonly bindAddress?: string,
+    ) {
+        super();
+        // an accessory subscribes per MAC, a lot of devices is not a leak
+        this.setMaxListeners(0);
+
+        this.socket.on('message', (message, remote) => {
+            let push: IWizPushMessage|undefined;
+            try {
+                push = parsePushMessage(JSON.parse(message.toString()));
+            } catch (e) {
+                return;
+            }
+            if (push) {
+                this.log.debug(`Received ${push.method} from ${remote.address}`, push.params);
+                this.emit(push.params.mac, push, remote.address);
+                this.emit('push', push, remote.address);
+            } else {
+                this.log.debug(`Ignoring an invalid message from ${remote.address}:`, message.toString());
+            }
+        });
+        this.socket.on('error', (error) => {
+            this.log.error(`Cannot listen for WiZ updates on port ${WIZ_PUSH_PORT}:`, error.message);
+        });
+    }
+
+    /**
+     * Binds the push port, resolves with whether it is listening. It isn't when there is no network interface
+     * or another process holds the port, e.g. Homebridge running on the same host. The error is logged.
+     */
+    start(): Promise<boolean> {
+        return new Promise((resolve) => {
+            if (!this.localAddress) {
+                this.log.error('Cannot listen for WiZ updates, no network interface found');
+                resolve(false);
+                return;
+            }
+            this.socket.once('error', () => resolve(false));
+            this.socket.bind(WIZ_PUSH_PORT, this.bindAddress, () => {
+                this.listening = true;
+                this.timer = setInterval(() => this.registered.forEach(ip => this.sendRegistration(ip)), REGISTRATION_INTERVAL);
+                resolve(true);
+            });
+        });
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+        }
+        this.listening = false;
+        // a socket that failed to bind is still open
+        if (!this.closed) {
+            this.closed = true;
+            this.socket.close();
+        }
+    }
+
+    /**
+     * Asks the device to send its state changes to this host
+     */
+    register(ip: string) {
+        this.registered.add(ip);
+        this.sendRegistration(ip);
+    }
+
+    unregister(ip: string) {
+        this.registered.delete(ip);
+    }
+
+    private sendRegistration(ip: string) {
+        if (!this.listening || !this.localAddress) {
+            return;
+        }
+        const message = Buffer.from(JSON.stringify({
+            method: 'registration',
+            params: {
+                phoneIp: this.localAddress.address,
+                phoneMac: this.localAddress.mac.replace(/:/g, '').toUpperCase(),
+                register: true,
+                id: '1',
+            },
+        }));
+        this.socket.send(message, WIZ_PORT, ip, (error) => {
+            if (error) {
+                this.log.debug(`Cannot register at ${ip}:`, error.message);
+            }
+        });
+    }
+}
+
+/**
+ * Finds the IPv4 address of this host the devices send their updates to: the one of the network interface
+ * with the given name or address, or the first external one when none is given
+ */
+export function getLocalAddress(networkInterface?: string): os.NetworkInterfaceInfo|undefined {
+    for (const [name, addresses] of Object.entries(os.networkInterfaces())) {
+        // node 18.0 - 18.3 report the family as a number
+        const address = (addresses ?? [])
+            .filter(address => address.family === 'IPv4' || address.family as unknown === 4)
+            .find(address => networkInterface
+                ? name === networkInterface || address.address === networkInterface
+                : !address.internal);
+        if (address) {
+            return address;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,69 @@
+import { IWizDevice } from './platform';
+
+/**
+ * The built-in WiZ scenes by sceneId
+ */
+export const WIZ_SCENES: { [sceneId: number]: string } = {
+    1: 'Ocean',
+    2: 'Romance',
+    3: 'Sunset',
+    4: 'Party',
+    5: 'Fireplace',
+    6: 'Cozy',
+    7: 'Forest',
+    8: 'Pastel Colors',
+    9: 'Wake up',
+    10: 'Bedtime',
+    11: 'Warm White',
+    12: 'Daylight',
+    13: 'Cool white',
+    14: 'Night light',
+    15: 'Focus',
+    16: 'Relax',
+    17: 'True colors',
+    18: 'TV time',
+    19: 'Plantgrowth',
+    20: 'Spring',
+    21: 'Summer',
+    22: 'Fall',
+    23: 'Deepdive',
+    24: 'Jungle',
+    25: 'Mojito',
+    26: 'Club',
+    27: 'Christmas',
+    28: 'Halloween',
+    29: 'Candlelight',
+    30: 'Golden white',
+    31: 'Pulse',
+    32: 'Steampunk',
+    1000: 'Rhythm',
+};
+
+// scenes that don't need the rgb leds
+const TUNABLE_WHITE_SCENES = [6, 9, 10, 11, 12, 13, 14, 15, 16, 18, 29, 30, 31, 32];
+// scenes that only need the brightness to change
+const DIMMABLE_SCENES = [9, 10, 13, 14, 29, 30, 31, 32];
+
+/**
+ * Returns the sceneIds the device type is able to show
+ */
+export function getSupportedScenes(type: IWizDevice['type']): number[] {
+    switch (type) {
+        case 'RGB_LIGHT':
+            return Object.keys(WIZ_SCENES).map(Number);
+        case 'WHITE_LIGHT':
+            return TUNABLE_WHITE_SCENES;
+        case 'DIMMABLE_LIGHT':
+            return DIMMABLE_SCENES;
+        default:
+            return [];
+    }
+}
+
+/**
+ * Finds the sceneId by its name, case insensitive
+ */
+export function getSceneId(name: string): number|undefined {
+    const sceneId = Object.keys(WIZ_SCENES).find(id => WIZ_SCENES[id].toLowerCase() === name.trim().toLowerCase());
+    return sceneId === undefined ? undefined : Number(sceneId);
+}
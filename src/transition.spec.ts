@@ -0,0 +1,58 @@
+import assert from 'assert';
+
+import { IWizFadeValues, WizFade } from './transition';
+
+describe('WizFade', () => {
+    let sent: IWizFadeValues[];
+    const send = async (params: IWizFadeValues) => {
+        sent.push(params);
+    };
+
+    beforeEach(() => {
+        sent = [];
+    });
+
+    it('steps the values from the start to the target', async () => {
+        const fade = new WizFade({ dimming: 10, temp: 2200 }, { dimming: 50, temp: 6200 }, 800, send);
+
+        assert.strictEqual(await fade.finished, true);
+        assert.deepStrictEqual(sent, [
+            { dimming: 20, temp: 3200 },
+            { dimming: 30, temp: 4200 },
+            { dimming: 40, temp: 5200 },
+            { dimming: 50, temp: 6200 },
+        ]);
+        assert.deepStrictEqual(fade.current, { dimming: 50, temp: 6200 });
+    });
+
+    it('only changes the values of the target', async () => {
+        const fade = new WizFade({ dimming: 10, temp: 2200 }, { dimming: 30 }, 400, send);
+
+        await fade.finished;
+        assert.deepStrictEqual(sent, [{ dimming: 20 }, { dimming: 30 }]);
+    });
+
+    it('keeps the dimming within the range the devices accept', async () => {
+        const fade = new WizFade({ dimming: 1 }, { dimming: 5 }, 400, send);
+
+        await fade.finished;
+        assert.deepStrictEqual(sent, [{ dimming: 10 }, { dimming: 10 }]);
+    });
+
+    it('stops at the step it reached when cancelled', async () => {
+        const fade = new WizFade({ dimming: 0 }, { dimming: 100 }, 2000, send);
+        await fade.started;
+        fade.cancel();
+
+        assert.strictEqual(await fade.finished, false);
+        assert.deepStrictEqual(sent, [{ dimming: 10 }]);
+        assert.deepStrictEqual(fade.current, { dimming: 10 });
+    });
+
+    it('rejects when the first step is not accepted', async () => {
+        const fade = new WizFade({ dimming: 0 }, { dimming: 100 }, 2000, () => Promise.reject(new Error('timed out')));
+
+        await assert.rejects(fade.started, /timed out/);
+        assert.strictEqual(await fade.finished, false);
+    });
+});
@@ -0,0 +1,121 @@
+// the shortest time (ms) between two steps, and the most steps a fade is split into
+const MIN_STEP_INTERVAL = 200;
+const MAX_STEPS = 100;
+
+// the dimming (%) WiZ devices accept
+const MIN_DIMMING = 10;
+const MAX_DIMMING = 100;
+
+export interface IWizFadeValues {
+    // 10-100 (%)
+    dimming?: number;
+    // kelvin
+    temp?: number;
+}
+
+/**
+ * Changes the dimming and temp of a light gradually, WiZ devices only know abrupt changes.
+ * The way from `from` to `to` is split into steps of at least MIN_STEP_INTERVAL and at most MAX_STEPS,
+ * each step is sent with `send` once the previous one was accepted. Only the values set in `to` are changed,
+ * the dimming of every step is kept within the 10-100% the devices accept.
+ */
+export class WizFade {
+    // resolves once the device accepted the first step, rejects when it didn't
+    readonly started: Promise<void>;
+
+    // resolves with true once the device accepted the last step, with false when the fade was cancelled or a step failed
+    readonly finished: Promise<boolean>;
+
+    private cancelled = false;
+    // the last step the device accepted
+    private reached: IWizFadeValues = {};
+    private timer?: NodeJS.Timeout;
+    private wake?: () => void;
+
+    constructor(
+        private readonly from: IWizFadeValues,
+        readonly to: IWizFadeValues,
+        // ms
+        private readonly duration: number,
+        private readonly send: (params: IWizFadeValues) => Promise<void>,
+    ) {
+        let resolveStarted!: () => void;
+        let rejectStarted!: (error: Error) => void;
+        this.started = new Promise((resolve, reject) => {
+            resolveStarted = resolve;
+            rejectStarted = reject;
+        });
+        this.finished = this.run(resolveStarted, rejectStarted);
+    }
+
+    /**
+     * The values the light is at right now
+     */
+    get current(): IWizFadeValues {
+        return { ...this.from, ...this.reached };
+    }
+
+    /**
+     * Stops the fade, the light keeps the step it is at
+     */
+    cancel() {
+        this.cancelled = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.wake?.();
+    }
+
+    private async run(started: () => void, failed: (error: Error) => void): Promise<boolean> {
+        const steps = Math.max(1, Math.min(MAX_STEPS, Math.floor(this.duration / MIN_STEP_INTERVAL)));
+        for (let step = 1; step <= steps; step++) {
+            if (step > 1) {
+                await this.sleep(this.duration / steps);
+            }
+            if (this.cancelled) {
+                started();
+                return false;
+            }
+            const values = this.interpolate(step / steps);
+            try {
+                await this.send(values);
+                this.reached = values;
+            } catch (error) {
+                // the failure of a later step is logged by the sender
+                failed(error);
+                return false;
+            }
+            started();
+        }
+        return !this.cancelled;
+    }
+
+    private interpolate(progress: number): IWizFadeValues {
+        const values: IWizFadeValues = {};
+        for (const key of ['dimming', 'temp'] as const) {
+            const to = this.to[key];
+            if (to !== undefined) {
+                const from = this.from[key] ?? to;
+                values[key] = Math.round(from + (to - from) * progress);
+            }
+        }
+        return clampDimming(values);
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            this.wake = resolve;
+            this.timer = setTimeout(resolve, ms);
+        });
+    }
+}
+
+/**
+ * Keeps the dimming within the 10-100% the devices accept, HomeKit and the routines allow down to 1%
+ */
+export function clampDimming<T extends { dimming?: number }>(values: T): T {
+    if (values.dimming === undefined) {
+        return values;
+    }
+    return { ...values, dimming: Math.min(Math.max(values.dimming, MIN_DIMMING), MAX_DIMMING) };
+}
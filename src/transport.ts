@@ -0,0 +1,182 @@
+import udp from 'dgram';
+import { Logger } from 'homebridge';
+
+import { WIZ_PORT } from './discovery';
+import { IWizResponse, parseResponse, WizError, WizMethod, WizParams } from './protocol';
+
+export interface IWizTransportOptions {
+    // how long (in ms) to wait for an answer before retrying
+    timeout: number;
+    // how often a request is retried after a timeout
+    retries: number;
+    // the local address the socket binds to, all interfaces when not set
+    localAddress?: string;
+}
+
+export interface IWizRequestOptions extends Partial<IWizTransportOptions> {
+    // logs the failure on debug level instead of as error, for probes that are allowed to fail
+    quiet?: boolean;
+}
+
+/**
+ * The device didn't answer, not even after the retries
+ */
+export class WizTimeoutError extends WizError {
+    constructor(ip: string, method: string) {
+        super(ip, method, `${method} on ${ip} timed out`);
+        this.name = 'WizTimeoutError';
+    }
+}
+
+interface IPendingRequest {
+    id: number;
+    ip: string;
+    method: WizMethod;
+    resolve: (response: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Sends the requests to the WiZ devices over a single shared socket.
+ * Every request gets its own id, answers are matched to the request by the id when the device echoes it,
+ * and by source ip and method otherwise, so a setPilot answer can never resolve a getPilot request.
+ */
+export class WizTransport {
+    private readonly socket = udp.createSocket('udp4');
+    private readonly pending: IPendingRequest[] = [];
+    private nextId = 1;
+    private bound?: Promise<void>;
+
+    constructor(
+        private readonly log: Logger,
+        private readonly options: IWizTransportOptions = { timeout: 1000, retries: 2 },
+    ) {
+        this.socket.on('message', (message, remote) => this.handleMessage(message, remote.address));
+        this.socket.on('error', (error) => {
+            this.log.error('WiZ socket error:', error.message);
+        });
+    }
+
+    /**
+     * Sends a request and resolves with the answer of the device. Timeouts are retried with an increasing delay,
+     * rejects with a WizTimeoutError when the device doesn't answer, with a WizDeviceError when it answers with an error
+     * and with a WizProtocolError when the answer is invalid.
+     */
+    async request<M extends WizMethod>(
+        ip: string,
+        method: M,
+        params: WizParams<M> = {},
+        options: IWizRequestOptions = {},
+    ): Promise<IWizResponse<M>> {
+        const timeout = options.timeout ?? this.options.timeout;
+        const retries = options.retries ?? this.options.retries;
+        const id = this.nextId++;
+
+        await this.bind();
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.send(id, ip, method, params, timeout);
+            } catch (error) {
+                if (!(error instanceof WizTimeoutError) || attempt >= retries) {
+                    const level = options.quiet ? 'debug' : 'error';
+                    this.log[level](error.message);
+                    throw error;
+                }
+                this.log.debug(`${method} on ${ip} timed out, retrying (${attempt + 1}/${retries})`);
+                await delay(100 * Math.pow(2, attempt));
+            }
+        }
+    }
+
+    close() {
+        this.pending.splice(0).forEach(request => request.reject(new WizTimeoutError(request.ip, request.method)));
+        if (this.bound) {
+            this.bound = undefined;
+            this.socket.close();
+        }
+    }
+
+    private bind(): Promise<void> {
+        if (!this.bound) {
+            this.bound = new Promise(resolve => this.socket.bind({ address: this.options.localAddress }, () => resolve()));
+        }
+        return this.bound;
+    }
+
+    private send<M extends WizMethod>(id: number, ip: string, method: M, params: WizParams<M>, timeout: number): Promise<IWizResponse<M>> {
+        return new Promise((resolve, reject) => {
+            const request: IPendingRequest = {
+                id,
+                ip,
+                method,
+                resolve: (response) => {
+                    clearTimeout(timer);
+                    resolve(response as IWizResponse<M>);
+                },
+                reject: (error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                },
+            };
+            const timer = setTimeout(() => {
+                this.removePending(request);
+                reject(new WizTimeoutError(ip, method));
+            }, timeout);
+            this.pending.push(request);
+
+            const message = Buffer.from(JSON.stringify({ id, method, params }));
+            this.log.debug(`Sending ${method} to ${ip}`, params);
+            this.socket.send(message, WIZ_PORT, ip, (error) => {
+                if (error) {
+                    this.removePending(request);
+                    request.reject(error);
+                }
+            });
+        });
+    }
+
+    private handleMessage(message: Buffer, ip: string) {
+        let response;
+        try {
+            response = JSON.parse(message.toString());
+        } catch (e) {
+            response = undefined;
+        }
+        // e.g. `null` from broken firmware, it can't be matched to a request
+        if (typeof response !== 'object' || response === null) {
+            this.log.debug(`Ignoring invalid answer from ${ip}:`, message.toString());
+            return;
+        }
+        this.log.debug(`Retrieved from ${ip}`, response);
+
+        // firmware that doesn't echo the id is matched by ip and method, an answer with another id is a late one
+        // to a request that timed out and must not resolve a newer request with its stale state
+        const candidates = this.pending.filter(request => request.ip === ip && request.method === response.method);
+        const request = response.id === undefined
+            ? candidates[0]
+            : candidates.find(candidate => candidate.id === response.id);
+        if (!request) {
+            return;
+        }
+        this.removePending(request);
+        try {
+            request.resolve(parseResponse(ip, request.method, response));
+        } catch (error) {
+            request.reject(error);
+        }
+    }
+
+    private removePending(request: IPendingRequest) {
+        const index = this.pending.indexOf(request);
+        if (index !== -1) {
+            this.pending.splice(index, 1);
+        }
+    }
+}
+
+/**
+ * Resolves after the given time (ms)
+ */
+export function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}